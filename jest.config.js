@@ -1,11 +1,6 @@
-module.exports = {
+const project = {
   preset: 'ts-jest',
   testEnvironment: 'node',
-  testMatch: ['**/test/**/*.spec.ts'],
-  collectCoverageFrom: [
-    '<rootDir>/src/**/*.ts',
-    '!<rootDir>/src/types/**/*.ts',
-  ],
   globals: {
     'ts-jest': {
       diagnostics: false,
@@ -13,3 +8,28 @@ module.exports = {
     },
   },
 };
+
+module.exports = {
+  collectCoverageFrom: [
+    '<rootDir>/src/**/*.ts',
+    '!<rootDir>/src/types/**/*.ts',
+  ],
+  projects: [
+    {
+      ...project,
+      testMatch: ['**/test/**/*.spec.ts'],
+      testPathIgnorePatterns: ['/node_modules/', '\\.legacy\\.spec\\.ts$'],
+    },
+    // Legacy decorator specs are compiled with experimentalDecorators
+    {
+      ...project,
+      testMatch: ['**/test/**/*.legacy.spec.ts'],
+      globals: {
+        'ts-jest': {
+          ...project.globals['ts-jest'],
+          tsconfig: '<rootDir>/test/tsconfig.legacy.json',
+        },
+      },
+    },
+  ],
+};
@@ -0,0 +1,191 @@
+import { Clock, systemClock } from './clock';
+
+/**
+ * @description Bulkhead policy, limits the concurrent attempts made to a dependency
+ * @property maxConcurrent - Number of attempts allowed to run at the same time
+ * @property maxQueue - Number of attempts allowed to wait for a free slot, further attempts are rejected right away (defaults to 0)
+ * @property queueTimeoutMs - Time in milliseconds an attempt may wait for a free slot before it is rejected (defaults to no timeout)
+ */
+export interface BulkheadPolicy {
+  maxConcurrent: number;
+  maxQueue?: number;
+  queueTimeoutMs?: number;
+}
+
+/**
+ * @description Why a bulkhead rejected an attempt
+ * - queueFull: all slots are taken and the queue is full
+ * - queueTimeout: no slot became free within queueTimeoutMs
+ */
+export type BulkheadRejectionReason = 'queueFull' | 'queueTimeout';
+
+/**
+ * @description Error thrown instead of running the attempt if the bulkhead is saturated
+ * @property reason - Why the attempt was rejected
+ */
+export class BulkheadRejectedError extends Error {
+  constructor(public readonly reason: BulkheadRejectionReason) {
+    super(
+      reason === 'queueFull'
+        ? 'Bulkhead is full'
+        : 'Bulkhead queue timeout exceeded'
+    );
+    this.name = 'BulkheadRejectedError';
+  }
+}
+
+/**
+ * @description Bulkhead, create it once and share it between all calls to the same dependency
+ * @property running - The number of attempts currently running
+ * @property queued - The number of attempts waiting for a free slot
+ * @property acquire - Waits for a free slot, returns a function to release it. Throws a BulkheadRejectedError if the bulkhead is saturated, or the abort reason if aborted while waiting
+ * @property execute - Runs the operation in a slot, released once the operation completed
+ */
+export interface Bulkhead {
+  readonly running: number;
+  readonly queued: number;
+  acquire: (abortSignal?: AbortSignal) => Promise<() => void>;
+  execute: <T>(
+    operation: () => Promise<T> | T,
+    abortSignal?: AbortSignal
+  ) => Promise<T>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * @description Creates a bulkhead
+ * @param configuration - Bulkhead policy
+ * @param clock - The source of timers for the queue timeout, defaults to the system clock
+ * @returns Bulkhead
+ */
+export function createBulkhead(
+  configuration: BulkheadPolicy,
+  clock: Clock = systemClock
+): Bulkhead {
+  const maxQueue = configuration.maxQueue ?? 0;
+  const queue: Waiter[] = [];
+  let running = 0;
+
+  const release = () => {
+    // The slot is handed over to the next waiter, if any
+    const next = queue.shift();
+    if (next) {
+      next.resolve();
+    } else {
+      running--;
+    }
+  };
+
+  const toRelease = () => {
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        release();
+      }
+    };
+  };
+
+  const acquire = (outerSignal?: AbortSignal) =>
+    new Promise<() => void>((resolve, reject) => {
+      const abortSignal = outerSignal ?? new AbortController().signal;
+      if (abortSignal.aborted) {
+        reject(abortSignal.reason);
+        return;
+      }
+      if (running < configuration.maxConcurrent) {
+        running++;
+        resolve(toRelease());
+        return;
+      }
+      if (queue.length >= maxQueue) {
+        reject(new BulkheadRejectedError('queueFull'));
+        return;
+      }
+
+      let timeoutId: unknown;
+      const leave = () => {
+        clock.clearTimeout(timeoutId);
+        abortSignal.removeEventListener('abort', abortListener);
+        queue.splice(queue.indexOf(waiter), 1);
+      };
+      const waiter: Waiter = {
+        resolve: () => {
+          clock.clearTimeout(timeoutId);
+          abortSignal.removeEventListener('abort', abortListener);
+          resolve(toRelease());
+        },
+        reject: error => {
+          leave();
+          reject(error);
+        },
+      };
+      const abortListener = () => waiter.reject(abortSignal.reason);
+      queue.push(waiter);
+      abortSignal.addEventListener('abort', abortListener);
+      if (configuration.queueTimeoutMs !== undefined) {
+        timeoutId = clock.setTimeout(
+          () => waiter.reject(new BulkheadRejectedError('queueTimeout')),
+          configuration.queueTimeoutMs
+        );
+      }
+    });
+
+  return {
+    get running() {
+      return running;
+    },
+    get queued() {
+      return queue.length;
+    },
+    acquire,
+    async execute(operation, abortSignal) {
+      const releaseSlot = await acquire(abortSignal);
+      try {
+        return await operation();
+      } finally {
+        releaseSlot();
+      }
+    },
+  };
+}
+
+/**
+ * @description Bulkheads per key, e.g. per host or per downstream service, each with the same policy
+ * @property get - The bulkhead of the key, created on first use
+ * @property keys - The keys a bulkhead was created for
+ */
+export interface KeyedBulkhead {
+  get: (key: string) => Bulkhead;
+  readonly keys: string[];
+}
+
+/**
+ * @description Creates bulkheads per key. Bulkheads are kept once created, so the keys should be a bounded set
+ * @param configuration - Bulkhead policy of every key
+ * @param clock - The source of timers for the queue timeout, defaults to the system clock
+ * @returns Keyed bulkhead
+ */
+export function createKeyedBulkhead(
+  configuration: BulkheadPolicy,
+  clock: Clock = systemClock
+): KeyedBulkhead {
+  const bulkheads = new Map<string, Bulkhead>();
+  return {
+    get(key) {
+      let bulkhead = bulkheads.get(key);
+      if (!bulkhead) {
+        bulkhead = createBulkhead(configuration, clock);
+        bulkheads.set(key, bulkhead);
+      }
+      return bulkhead;
+    },
+    get keys() {
+      return [...bulkheads.keys()];
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { sleep } from './utils/sleep';
+
+/**
+ * @description Source of time and timers, inject a VirtualClock to control time in tests
+ * @property now - The current time in milliseconds since epoch
+ * @property sleep - Waits for the given time, resolves early if the abort signal is aborted
+ * @property setTimeout - Calls the callback once the given time passed, returns a handle to clear the timer
+ * @property clearTimeout - Clears a timer, does nothing if it already ran
+ */
+export interface Clock {
+  now: () => number;
+  sleep: (ms: number, abortSignal?: AbortSignal) => Promise<void>;
+  setTimeout: (callback: () => void, ms: number) => unknown;
+  clearTimeout: (handle: unknown) => void;
+}
+
+/**
+ * @description The clock of the system, using Date.now and the global timers
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep: async (ms, abortSignal) => {
+    await sleep(ms, abortSignal);
+  },
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface VirtualTimer {
+  id: number;
+  time: number;
+  callback: () => void;
+}
+
+// Lets the continuations of promises settled by a timer run before the next timer
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Clock whose time only moves when advanced, for deterministic tests of delays and timeouts.
+ * Timers run in order of their time, with the clock set to that time.
+ *
+ * @example
+ * const clock = new VirtualClock();
+ * const promise = advancedRetry({ operation, errorResolvers, clock });
+ * await clock.advance(5000); // Runs all delays due within 5 seconds
+ * const result = await promise;
+ */
+export class VirtualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: VirtualTimer[] = [];
+
+  /**
+   * @param startTime - The initial time in milliseconds since epoch, defaults to 0.
+   */
+  constructor(startTime = 0) {
+    this.time = startTime;
+  }
+
+  /**
+   * The number of timers not run yet.
+   */
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): number {
+    const timer = {
+      id: this.nextId++,
+      time: this.time + Math.max(ms, 0),
+      callback,
+    };
+    // Stable insert, timers due at the same time run in the order they were set
+    const index = this.timers.findIndex(t => t.time > timer.time);
+    this.timers.splice(index < 0 ? this.timers.length : index, 0, timer);
+    return timer.id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter(t => t.id !== handle);
+  }
+
+  sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      if (abortSignal?.aborted) {
+        resolve();
+        return;
+      }
+      const abortListener = () => {
+        this.clearTimeout(id);
+        resolve();
+      };
+      const id = this.setTimeout(() => {
+        abortSignal?.removeEventListener('abort', abortListener);
+        resolve();
+      }, ms);
+      abortSignal?.addEventListener('abort', abortListener);
+    });
+  }
+
+  /**
+   * Moves the time forward, running all timers due until then, including timers they set.
+   *
+   * @param ms - The time to move forward in milliseconds.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    await flush();
+    while (this.timers.length > 0 && this.timers[0].time <= target) {
+      await this.runNext();
+    }
+    this.time = target;
+    await flush();
+  }
+
+  /**
+   * Runs all timers until none are left, moving the time forward to each of them.
+   *
+   * @param maxTimers - Maximum number of timers to run, to stop timers that keep setting new ones.
+   * @returns The number of timers run.
+   */
+  async runAll(maxTimers = 1000): Promise<number> {
+    let count = 0;
+    await flush();
+    while (this.timers.length > 0 && count < maxTimers) {
+      await this.runNext();
+      count++;
+    }
+    return count;
+  }
+
+  private async runNext(): Promise<void> {
+    const timer = this.timers.shift() as VirtualTimer;
+    this.time = Math.max(this.time, timer.time);
+    timer.callback();
+    await flush();
+  }
+}
@@ -0,0 +1,59 @@
+import { retryable, RetryableOptions } from './retryable';
+
+/**
+ * Options of the Retry decorator. Either the options themselves, or a function creating them from the instance
+ * the method is called on, e.g. to use the instance's own abort signal or circuit breaker.
+ */
+export type RetryDecoratorOptions<This, X> =
+  | RetryableOptions<any, X>
+  | ((instance: This) => RetryableOptions<any, X>);
+
+/**
+ * The context TC39 decorators pass to method decorators.
+ * Declared here instead of using ClassMethodDecoratorContext, which needs TypeScript 5.0.
+ */
+export interface RetryMethodDecoratorContext {
+  kind: 'method';
+  name: string | symbol;
+}
+
+/**
+ * Method decorator retrying every call of the method with advancedRetry.
+ * Supports both TC39 decorators and legacy experimentalDecorators.
+ * The decorated method rejects with the error if it failed to recover.
+ *
+ * @param options - The retry options, or a function creating them from the instance.
+ * @returns The method decorator.
+ */
+export function Retry<This = any, X = unknown>(
+  options: RetryDecoratorOptions<This, X> = {}
+) {
+  const wrap = <F extends (this: This, ...args: any[]) => unknown>(method: F) =>
+    function (this: This, ...args: Parameters<F>) {
+      const resolved = typeof options === 'function' ? options(this) : options;
+      return retryable(() => method.apply(this, args), resolved)();
+    };
+
+  function decorator<F extends (this: This, ...args: any[]) => unknown>(
+    value: F,
+    context: RetryMethodDecoratorContext
+  ): F;
+  function decorator(
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ): PropertyDescriptor;
+  function decorator(
+    valueOrTarget: any,
+    contextOrPropertyKey: unknown,
+    descriptor?: PropertyDescriptor
+  ): unknown {
+    // Legacy decorators get the property descriptor, TC39 decorators the method itself
+    if (descriptor) {
+      return { ...descriptor, value: wrap(descriptor.value) };
+    }
+    return wrap(valueOrTarget);
+  }
+
+  return decorator;
+}
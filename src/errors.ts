@@ -0,0 +1,165 @@
+/**
+ * Why the operation finally failed.
+ *
+ * - exhausted: the error resolvers had no attempts left or could not handle the error
+ * - unrecoverable: a resolver marked the error as unrecoverable
+ * - timeout: the overall timeout was reached
+ * - aborted: the operation was aborted through the abort signal
+ */
+export type RetryFailureReason =
+  | 'exhausted'
+  | 'unrecoverable'
+  | 'timeout'
+  | 'aborted';
+
+// AggregateError is missing before Node.js 15, an Error with the errors property stands in for it there
+const AggregateErrorBase: new (
+  errors: Iterable<unknown>,
+  message?: string
+) => Error & { errors: unknown[] } =
+  typeof AggregateError !== 'undefined'
+    ? AggregateError
+    : class extends Error {
+        readonly errors: unknown[];
+
+        constructor(errors: Iterable<unknown>, message?: string) {
+          super(message);
+          this.errors = Array.from(errors);
+        }
+      };
+
+/**
+ * Error thrown by advancedRetry with throwOnUnrecoveredError and retryExhaustedError set.
+ * It is an AggregateError where available, an Error with the errors property otherwise.
+ *
+ * @property errors - The errors of all attempts, in order.
+ * @property cause - The error the operation finally failed with.
+ * @property totalAttempts - The total number of attempts made.
+ * @property totalDurationMs - The total duration of the operation in milliseconds.
+ * @property reason - Why the operation finally failed.
+ */
+export class RetryExhaustedError extends AggregateErrorBase {
+  readonly cause: unknown;
+  readonly totalAttempts: number;
+  readonly totalDurationMs: number;
+  readonly reason: RetryFailureReason;
+
+  constructor({
+    errors,
+    cause,
+    totalAttempts,
+    totalDurationMs,
+    reason,
+  }: {
+    errors: unknown[];
+    cause: unknown;
+    totalAttempts: number;
+    totalDurationMs: number;
+    reason: RetryFailureReason;
+  }) {
+    super(
+      errors,
+      `Operation failed after ${totalAttempts} attempt(s) (${reason})`
+    );
+    this.name = 'RetryExhaustedError';
+    this.cause = cause;
+    this.totalAttempts = totalAttempts;
+    this.totalDurationMs = totalDurationMs;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Error the operation fails with if the overall timeout was reached.
+ * It is also the abort reason of the signal passed to the operation.
+ *
+ * @property timeoutMs - The overall timeout in milliseconds.
+ */
+export class RetryTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super('Operation timed out');
+    this.name = 'RetryTimeoutError';
+  }
+}
+
+/**
+ * Error the operation fails with if it was aborted through the abort signal.
+ *
+ * @property cause - The reason of the aborted signal.
+ */
+export class RetryAbortedError extends Error {
+  constructor(public readonly cause?: unknown) {
+    super('Operation aborted');
+    this.name = 'RetryAbortedError';
+  }
+}
+
+/**
+ * Error a single attempt fails with if the attempt timeout was reached.
+ * It is passed to the error resolvers like any other error, so the attempt can be retried.
+ * It is also the abort reason of the signal passed to the attempt.
+ *
+ * @property timeoutMs - The attempt timeout in milliseconds.
+ */
+export class AttemptTimeoutError extends Error {
+  constructor(public readonly timeoutMs: number) {
+    super('Attempt timed out');
+    this.name = 'AttemptTimeoutError';
+  }
+}
+
+/**
+ * Error an attempt fails with if its result was rejected by shouldRetryResult.
+ * It is passed to the error resolvers like any other error.
+ *
+ * @property result - The rejected result.
+ * @property response - The rejected result as well, so the status code and header filters work on rejected fetch responses.
+ */
+export class RejectedResultError<T = unknown> extends Error {
+  readonly response: T;
+
+  constructor(public readonly result: T) {
+    super('Operation result was rejected');
+    this.name = 'RejectedResultError';
+    this.response = result;
+  }
+}
+
+/**
+ * A problem found while validating a retry policy configuration.
+ *
+ * @property path - Where the problem is, e.g. stages[0].wait.delayMs.
+ * @property message - What is wrong.
+ */
+export interface PolicyValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Error thrown if a retry policy configuration is invalid, or a policy cannot be serialized.
+ *
+ * @property issues - All problems found.
+ */
+export class PolicyValidationError extends Error {
+  constructor(public readonly issues: PolicyValidationIssue[]) {
+    super(
+      `Invalid retry policy:\n${issues
+        .map(issue => `  ${issue.path}: ${issue.message}`)
+        .join('\n')}`
+    );
+    this.name = 'PolicyValidationError';
+  }
+}
+
+/**
+ * Error thrown if a retry policy is looked up by a name that is not registered.
+ *
+ * @property policyName - The name looked up.
+ */
+export class UnknownPolicyError extends Error {
+  constructor(public readonly policyName: string) {
+    super(`Unknown retry policy: ${policyName}`);
+    this.name = 'UnknownPolicyError';
+  }
+}
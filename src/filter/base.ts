@@ -1,4 +1,5 @@
 import { RetryContext } from '../retry';
+import { describeCombinedErrorFilter } from './config';
 
 /**
  * Function that determines if an error can be handled by the specified resolver.
@@ -35,20 +36,24 @@ export function toErrorFilter<X>(
 export function allErrorFilter<X>(
   filters: (ErrorFilter<X> | CanHandleErrorFunction<X>)[]
 ): ErrorFilter<X> {
-  return {
-    canHandleError: (
-      error: unknown,
-      attempt: number,
-      context: RetryContext<X>
-    ) => {
-      return filters.every(filter => {
-        if (typeof filter === 'function') {
-          return filter(error, attempt, context);
-        }
-        return filter.canHandleError(error, attempt, context);
-      });
+  return describeCombinedErrorFilter(
+    {
+      canHandleError: (
+        error: unknown,
+        attempt: number,
+        context: RetryContext<X>
+      ) => {
+        return filters.every(filter => {
+          if (typeof filter === 'function') {
+            return filter(error, attempt, context);
+          }
+          return filter.canHandleError(error, attempt, context);
+        });
+      },
     },
-  };
+    'all',
+    filters
+  );
 }
 
 /**
@@ -58,37 +63,45 @@ export function allErrorFilter<X>(
 export function anyErrorFilter<X>(
   filters: (ErrorFilter<X> | CanHandleErrorFunction<X>)[]
 ): ErrorFilter<X> {
-  return {
-    canHandleError: (
-      error: unknown,
-      attempt: number,
-      context: RetryContext<X>
-    ) => {
-      return filters.some(filter => {
-        if (typeof filter === 'function') {
-          return filter(error, attempt, context);
-        }
-        return filter.canHandleError(error, attempt, context);
-      });
+  return describeCombinedErrorFilter(
+    {
+      canHandleError: (
+        error: unknown,
+        attempt: number,
+        context: RetryContext<X>
+      ) => {
+        return filters.some(filter => {
+          if (typeof filter === 'function') {
+            return filter(error, attempt, context);
+          }
+          return filter.canHandleError(error, attempt, context);
+        });
+      },
     },
-  };
+    'any',
+    filters
+  );
 }
 
 export function noneErrorFilter<X>(
   filters: (ErrorFilter<X> | CanHandleErrorFunction<X>)[]
 ): ErrorFilter<X> {
-  return {
-    canHandleError: (
-      error: unknown,
-      attempt: number,
-      context: RetryContext<X>
-    ) => {
-      return !filters.some(filter => {
-        if (typeof filter === 'function') {
-          return filter(error, attempt, context);
-        }
-        return filter.canHandleError(error, attempt, context);
-      });
+  return describeCombinedErrorFilter(
+    {
+      canHandleError: (
+        error: unknown,
+        attempt: number,
+        context: RetryContext<X>
+      ) => {
+        return !filters.some(filter => {
+          if (typeof filter === 'function') {
+            return filter(error, attempt, context);
+          }
+          return filter.canHandleError(error, attempt, context);
+        });
+      },
     },
-  };
+    'none',
+    filters
+  );
 }
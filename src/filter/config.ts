@@ -0,0 +1,48 @@
+import { CanHandleErrorFunction, ErrorFilter } from './base';
+
+/**
+ * Serializable description of an error filter, as used in retry policy configurations.
+ */
+export type ErrorFilterConfig =
+  | { type: 'statusCodeAny'; statusCodes: number[] }
+  | { type: 'statusCodeRange'; min: number; max: number }
+  | { type: 'keywordAny'; keywords: string[] }
+  | { type: 'keywordAll'; keywords: string[] }
+  | { type: 'all'; filters: ErrorFilterConfig[] }
+  | { type: 'any'; filters: ErrorFilterConfig[] }
+  | { type: 'none'; filters: ErrorFilterConfig[] };
+
+// Filters created by the built-in factories remember how they were created, so they can be serialized again
+const filterConfigs = new WeakMap<object, ErrorFilterConfig>();
+
+export function describeErrorFilter<F extends ErrorFilter<any>>(
+  filter: F,
+  config: ErrorFilterConfig
+): F {
+  filterConfigs.set(filter, config);
+  return filter;
+}
+
+/**
+ * Describes a combination of filters, if all of the combined filters can be described.
+ */
+export function describeCombinedErrorFilter<F extends ErrorFilter<any>>(
+  filter: F,
+  type: 'all' | 'any' | 'none',
+  filters: (ErrorFilter<any> | CanHandleErrorFunction<any>)[]
+): F {
+  const configs = filters.map(errorFilterToConfig);
+  if (configs.every(config => config !== undefined)) {
+    filterConfigs.set(filter, { type, filters: configs });
+  }
+  return filter;
+}
+
+/**
+ * @returns The description of a filter created by a built-in filter factory, undefined for any other filter.
+ */
+export function errorFilterToConfig<X>(
+  filter: ErrorFilter<X> | CanHandleErrorFunction<X>
+): ErrorFilterConfig | undefined {
+  return filterConfigs.get(filter);
+}
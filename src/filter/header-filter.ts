@@ -0,0 +1,54 @@
+import { ErrorFilter } from './base';
+
+function headerValue(headers: unknown, name: string): string | null {
+  if (typeof headers !== 'object' || headers === null) {
+    return null;
+  }
+  // Fetch API Headers (or anything with a compatible get function)
+  if (typeof (headers as { get?: unknown }).get === 'function') {
+    const value = (headers as { get: (name: string) => unknown }).get(name);
+    return value == undefined ? null : String(value);
+  }
+  // Plain objects, header names are case-insensitive
+  const key = Object.keys(headers).find(
+    k => k.toLowerCase() === name.toLowerCase()
+  );
+  if (key === undefined) {
+    return null;
+  }
+  const value = (headers as Record<string, unknown>)[key];
+  if (Array.isArray(value)) {
+    return value.length > 0 ? String(value[0]) : null;
+  }
+  return value == undefined ? null : String(value);
+}
+
+export function errorToHeader(error: unknown, name: string): string | null {
+  if (typeof error === 'object' && error !== null) {
+    const err = error as Record<string, unknown>;
+
+    // Check headers directly on the error
+    const direct = headerValue(err.headers, name);
+    if (direct !== null) return direct;
+
+    // Check for nested response object
+    if ('response' in err && typeof err.response === 'object' && err.response) {
+      return headerValue(
+        (err.response as Record<string, unknown>).headers,
+        name
+      );
+    }
+  }
+  return null;
+}
+
+/**
+ * Creates a filter that matches if the error has any of the specified headers
+ */
+export const headerErrorFilterAny = <X>(
+  headerNames: string[]
+): ErrorFilter<X> => ({
+  canHandleError: error => {
+    return headerNames.some(name => errorToHeader(error, name) !== null);
+  },
+});
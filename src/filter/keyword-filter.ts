@@ -1,4 +1,5 @@
 import { ErrorFilter } from './base';
+import { describeErrorFilter } from './config';
 export function errorToString(error: unknown): string {
   if (error instanceof Error) {
     return error.message;
@@ -11,18 +12,24 @@ export function errorToString(error: unknown): string {
   }
   return String(error);
 }
-export const keywordErrorFilterAny = <X>(
-  keywords: string[]
-): ErrorFilter<X> => ({
-  canHandleError: error => {
-    return keywords.some(keyword => errorToString(error).includes(keyword));
-  },
-});
+export const keywordErrorFilterAny = <X>(keywords: string[]): ErrorFilter<X> =>
+  describeErrorFilter(
+    {
+      canHandleError: error => {
+        return keywords.some(keyword => errorToString(error).includes(keyword));
+      },
+    },
+    { type: 'keywordAny', keywords }
+  );
 
-export const keywordErrorFilterAll = <X>(
-  keywords: string[]
-): ErrorFilter<X> => ({
-  canHandleError: error => {
-    return keywords.every(keyword => errorToString(error).includes(keyword));
-  },
-});
+export const keywordErrorFilterAll = <X>(keywords: string[]): ErrorFilter<X> =>
+  describeErrorFilter(
+    {
+      canHandleError: error => {
+        return keywords.every(keyword =>
+          errorToString(error).includes(keyword)
+        );
+      },
+    },
+    { type: 'keywordAll', keywords }
+  );
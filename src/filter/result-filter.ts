@@ -0,0 +1,61 @@
+import { RetryContext } from '../retry';
+
+/**
+ * Function that determines if a result returned by the operation should be retried as if it was an error.
+ *
+ * @param result - The result returned by the operation.
+ * @param attempt - The number of attempts made before this one.
+ * @param context - The context the attempt was made with.
+ * @returns Whether the result should be retried.
+ */
+export type ShouldRetryResultFunction<T, X> = (
+  result: T,
+  attempt: number,
+  context: RetryContext<X>
+) => boolean;
+
+/**
+ * Base interface for result filters
+ */
+export interface ResultFilter<T, X> {
+  shouldRetryResult: ShouldRetryResultFunction<T, X>;
+}
+
+export function toResultFilter<T, X>(
+  p: ShouldRetryResultFunction<T, X> | ResultFilter<T, X>
+): ResultFilter<T, X> {
+  if (typeof p === 'function') {
+    return { shouldRetryResult: p };
+  }
+  return p;
+}
+
+/**
+ * Creates a filter that requires all provided filters to pass
+ * @param filters Array of filters or filter functions
+ */
+export function allResultFilter<T, X>(
+  filters: (ResultFilter<T, X> | ShouldRetryResultFunction<T, X>)[]
+): ResultFilter<T, X> {
+  return {
+    shouldRetryResult: (result, attempt, context) =>
+      filters.every(filter =>
+        toResultFilter(filter).shouldRetryResult(result, attempt, context)
+      ),
+  };
+}
+
+/**
+ * Creates a filter that requires any of the provided filters to pass
+ * @param filters Array of filters or filter functions
+ */
+export function anyResultFilter<T, X>(
+  filters: (ResultFilter<T, X> | ShouldRetryResultFunction<T, X>)[]
+): ResultFilter<T, X> {
+  return {
+    shouldRetryResult: (result, attempt, context) =>
+      filters.some(filter =>
+        toResultFilter(filter).shouldRetryResult(result, attempt, context)
+      ),
+  };
+}
@@ -1,4 +1,5 @@
 import { ErrorFilter } from './base';
+import { describeErrorFilter } from './config';
 
 export function errorToStatusCode(error: unknown): number | null {
   // Check for standard response object with status
@@ -39,12 +40,16 @@ export function errorToStatusCode(error: unknown): number | null {
  */
 export const statusCodeErrorFilterAny = <X>(
   statusCodes: number[]
-): ErrorFilter<X> => ({
-  canHandleError: error => {
-    const status = errorToStatusCode(error);
-    return status !== null && statusCodes.includes(status);
-  },
-});
+): ErrorFilter<X> =>
+  describeErrorFilter(
+    {
+      canHandleError: error => {
+        const status = errorToStatusCode(error);
+        return status !== null && statusCodes.includes(status);
+      },
+    },
+    { type: 'statusCodeAny', statusCodes }
+  );
 
 /**
  * Creates a filter that matches errors within a status code range (inclusive)
@@ -52,12 +57,16 @@ export const statusCodeErrorFilterAny = <X>(
 export const statusCodeErrorFilterRange = <X>(
   min: number,
   max: number
-): ErrorFilter<X> => ({
-  canHandleError: error => {
-    const status = errorToStatusCode(error);
-    return status !== null && status >= min && status <= max;
-  },
-});
+): ErrorFilter<X> =>
+  describeErrorFilter(
+    {
+      canHandleError: error => {
+        const status = errorToStatusCode(error);
+        return status !== null && status >= min && status <= max;
+      },
+    },
+    { type: 'statusCodeRange', min, max }
+  );
 
 // Common status code ranges
 export const serverErrorErrorFilter = statusCodeErrorFilterRange<unknown>(
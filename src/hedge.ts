@@ -0,0 +1,103 @@
+import { abortSignalAny, RetryOptions } from './retry';
+import { Clock, systemClock } from './clock';
+
+/**
+ * Options of hedged attempts.
+ *
+ * @param hedgeDelayMs - Time in milliseconds to wait for an attempt before another concurrent attempt is started.
+ * @param maxHedgedAttempts - Maximum number of additional concurrent attempts (defaults to 1).
+ */
+export interface HedgeOptions {
+  hedgeDelayMs: number;
+  maxHedgedAttempts?: number;
+}
+
+/**
+ * Wraps an operation in hedged attempts, for latency sensitive reads.
+ * If an attempt did not complete after hedgeDelayMs, another concurrent attempt is started, up to maxHedgedAttempts.
+ * A failed attempt starts the next one right away. The first success wins, the other attempts are aborted through their own abort signal.
+ * If all attempts fail, the error of the last one is thrown.
+ *
+ * @param operation - The operation to hedge, it should abort its work if its abort signal is aborted.
+ * @param options - The hedge options.
+ * @param clock - The source of timers, defaults to the system clock.
+ * @returns The hedged operation.
+ */
+export function hedge<T, X>(
+  operation: RetryOptions<T, X>['operation'],
+  { hedgeDelayMs, maxHedgedAttempts = 1 }: HedgeOptions,
+  clock: Clock = systemClock
+): RetryOptions<T, X>['operation'] {
+  return (retryContext, outerSignal) =>
+    new Promise<T>((resolve, reject) => {
+      const abortSignal = outerSignal ?? new AbortController().signal;
+      if (abortSignal.aborted) {
+        reject(abortSignal.reason);
+        return;
+      }
+
+      const attempts: ReturnType<typeof abortSignalAny>[] = [];
+      let running = 0;
+      let settled = false;
+      let timeoutId: unknown;
+
+      const settle = (
+        winner: AbortController | undefined,
+        complete: () => void
+      ) => {
+        settled = true;
+        clock.clearTimeout(timeoutId);
+        abortSignal.removeEventListener('abort', onAbort);
+        attempts.forEach(({ abortController, abortListeners }) => {
+          abortListeners.forEach(l =>
+            abortSignal.removeEventListener('abort', l)
+          );
+          if (abortController !== winner) {
+            // Losers are aborted with the outer reason if that is what ended the race
+            abortController.abort(
+              abortSignal.aborted ? abortSignal.reason : undefined
+            );
+          }
+        });
+        complete();
+      };
+
+      const onAbort = () => {
+        settle(undefined, () => reject(abortSignal.reason));
+      };
+
+      const start = () => {
+        // Every attempt gets its own signal, aborted with the outer one
+        const attempt = abortSignalAny([abortSignal]);
+        attempts.push(attempt);
+        running++;
+        if (attempts.length <= maxHedgedAttempts) {
+          timeoutId = clock.setTimeout(start, hedgeDelayMs);
+        }
+        Promise.resolve()
+          .then(() => operation(retryContext, attempt.signal))
+          .then(
+            result => {
+              if (!settled) {
+                settle(attempt.abortController, () => resolve(result));
+              }
+            },
+            error => {
+              running--;
+              if (settled) {
+                return;
+              }
+              if (attempts.length <= maxHedgedAttempts) {
+                clock.clearTimeout(timeoutId);
+                start();
+              } else if (running === 0) {
+                settle(undefined, () => reject(error));
+              }
+            }
+          );
+      };
+
+      abortSignal.addEventListener('abort', onAbort);
+      start();
+    });
+}
@@ -1,6 +1,23 @@
 export * from './retry';
+export * from './clock';
+export * from './errors';
+export * from './poll';
+export * from './retryable';
+export * from './hedge';
+export * from './bulkhead';
+export * from './decorator';
+export * from './policy';
+export * from './policy-config';
+export * from './registry';
+export * from './simulate';
 export * from './resolver/delayed-retry-resolver';
+export * from './resolver/exponential-retry-resolver';
+export * from './resolver/retry-after-resolver';
+export * from './resolver/circuit-breaker-resolver';
+export * from './resolver/retry-budget-resolver';
 export * from './resolver/custom-retry-resolver';
 export * from './filter/base';
 export * from './filter/keyword-filter';
 export * from './filter/status-code-filter';
+export * from './filter/header-filter';
+export * from './filter/result-filter';
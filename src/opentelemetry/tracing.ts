@@ -0,0 +1,146 @@
+import {
+  Attributes,
+  context,
+  INVALID_SPAN_CONTEXT,
+  Span,
+  SpanStatusCode,
+  trace,
+  Tracer,
+} from '@opentelemetry/api';
+import { advancedRetry, RetryOptions, RetryResult } from '../retry';
+
+/**
+ * @description Tracing options
+ * @property tracer - The tracer to create the spans with (defaults to the tracer 'advanced-retry' of the global tracer provider)
+ * @property spanName - Name of the span of the call, the attempts are named "<spanName> attempt" (defaults to 'retry')
+ * @property attributes - Additional attributes of the span of the call, e.g. the name of the dependency
+ */
+export interface TracingOptions {
+  tracer?: Tracer;
+  spanName?: string;
+  attributes?: Attributes;
+}
+
+const toException = (error: unknown) =>
+  error instanceof Error ? error : String(error);
+
+/**
+ * Runs advancedRetry in a span, with a child span per attempt.
+ * The operation runs in the context of its attempt span, so spans it creates, e.g. of HTTP clients, are children of the attempt.
+ * The lifecycle hooks of the options are still called.
+ *
+ * Span of the call: attribute retry.attempts, retry.outcome (success, fallback or failure) and retry.failure_reason,
+ * event retry.scheduled per retry with retry.attempt, retry.resolver_index and retry.delay_ms.
+ * Span of an attempt: attribute retry.attempt, retry.resolver_index and retry.delay_ms if it is retried,
+ * event retry.resolver_exhausted per resolver that passed the error on, the exception if it failed.
+ *
+ * @example
+ * const result = await tracedRetry(
+ *   { operation: () => fetchData(), policy: 'default-http' },
+ *   { spanName: 'fetch data', attributes: { 'peer.service': 'data-api' } }
+ * );
+ *
+ * @param options - The options of advancedRetry.
+ * @param tracing - The tracing options.
+ * @returns The result of advancedRetry.
+ */
+export async function tracedRetry<T, X>(
+  options: RetryOptions<T, X>,
+  tracing: TracingOptions = {}
+): Promise<RetryResult<T>> {
+  const {
+    tracer = trace.getTracer('advanced-retry'),
+    spanName = 'retry',
+    attributes,
+  } = tracing;
+  const span = tracer.startSpan(spanName, { attributes });
+  const spanContext = trace.setSpan(context.active(), span);
+  // Between the attempts the non-recording span stands in, so ending it again is harmless
+  const noAttemptSpan = trace.wrapSpanContext(INVALID_SPAN_CONTEXT);
+  let attemptSpan: Span = noAttemptSpan;
+  let attemptContext = spanContext;
+  let attempts = 0;
+
+  const endAttempt = () => {
+    attemptSpan.end();
+    attemptSpan = noAttemptSpan;
+  };
+
+  const tracedOptions: RetryOptions<T, X> = {
+    ...options,
+    operation: (retryContext, abortSignal) =>
+      context.with(attemptContext, () =>
+        options.operation(retryContext, abortSignal)
+      ),
+    onAttemptStart: event => {
+      attempts = event.attempt;
+      attemptSpan = tracer.startSpan(
+        `${spanName} attempt`,
+        { attributes: { 'retry.attempt': event.attempt } },
+        spanContext
+      );
+      attemptContext = trace.setSpan(spanContext, attemptSpan);
+      options.onAttemptStart?.(event);
+    },
+    onAttemptError: event => {
+      attemptSpan.recordException(toException(event.error));
+      attemptSpan.setStatus({ code: SpanStatusCode.ERROR });
+      options.onAttemptError?.(event);
+    },
+    onResolverExhausted: event => {
+      attemptSpan.addEvent('retry.resolver_exhausted', {
+        'retry.resolver_index': event.resolverIndex,
+      });
+      options.onResolverExhausted?.(event);
+    },
+    onRetryScheduled: event => {
+      const retryAttributes = {
+        'retry.resolver_index': event.resolverIndex,
+        'retry.delay_ms': event.delayMs,
+      };
+      attemptSpan.setAttributes(retryAttributes);
+      span.addEvent('retry.scheduled', {
+        'retry.attempt': event.attempt,
+        ...retryAttributes,
+      });
+      endAttempt();
+      options.onRetryScheduled?.(event);
+    },
+    onSuccess: event => {
+      endAttempt();
+      options.onSuccess?.(event);
+    },
+    onGiveUp: event => {
+      span.setAttribute('retry.failure_reason', event.failureReason);
+      endAttempt();
+      options.onGiveUp?.(event);
+    },
+  };
+
+  try {
+    const result = await context.with(spanContext, () =>
+      advancedRetry(tracedOptions)
+    );
+    span.setAttribute(
+      'retry.outcome',
+      result.success
+        ? result.fromFallback
+          ? 'fallback'
+          : 'success'
+        : 'failure'
+    );
+    if (!result.success) {
+      span.recordException(toException(result.error));
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    return result;
+  } catch (error) {
+    span.setAttribute('retry.outcome', 'failure');
+    span.recordException(toException(error));
+    span.setStatus({ code: SpanStatusCode.ERROR });
+    throw error;
+  } finally {
+    span.setAttribute('retry.attempts', attempts);
+    span.end();
+  }
+}
@@ -0,0 +1,363 @@
+import { PolicyValidationError, PolicyValidationIssue } from './errors';
+import {
+  allErrorFilter,
+  anyErrorFilter,
+  ErrorFilter,
+  noneErrorFilter,
+} from './filter/base';
+import { ErrorFilterConfig, errorFilterToConfig } from './filter/config';
+import {
+  keywordErrorFilterAll,
+  keywordErrorFilterAny,
+} from './filter/keyword-filter';
+import {
+  statusCodeErrorFilterAny,
+  statusCodeErrorFilterRange,
+} from './filter/status-code-filter';
+import { RetryPolicy, WaitStrategy } from './policy';
+import { JitterStrategy } from './resolver/exponential-retry-resolver';
+
+export type { ErrorFilterConfig } from './filter/config';
+
+/**
+ * Serializable description of a stage of a retry policy.
+ *
+ * @property filter - The errors handled by the stage, all errors if not set.
+ * @property wait - How long to wait before the next attempt, no delay if not set. A custom random source cannot be configured.
+ * @property maxRetries - Maximum number of retries of the stage (defaults to 3).
+ */
+export interface RetryPolicyStageConfig {
+  filter?: ErrorFilterConfig;
+  wait?: WaitStrategy;
+  maxRetries?: number;
+}
+
+/**
+ * Serializable description of a retry policy, e.g. loaded from a JSON or YAML file.
+ *
+ * @property stages - The stages, in the order errors are offered to them.
+ * @property timeoutMs - The overall timeout in milliseconds.
+ * @property attemptTimeoutMs - The timeout of a single attempt in milliseconds.
+ */
+export interface RetryPolicyConfig {
+  stages: RetryPolicyStageConfig[];
+  timeoutMs?: number;
+  attemptTimeoutMs?: number;
+}
+
+const JITTER_STRATEGIES: JitterStrategy[] = [
+  'none',
+  'full',
+  'equal',
+  'decorrelated',
+];
+
+type Checked = Record<string, unknown>;
+
+/**
+ * Collects the issues of a configuration, so all of them are reported at once.
+ */
+class Validator {
+  readonly issues: PolicyValidationIssue[] = [];
+
+  report(path: string, message: string): void {
+    this.issues.push({ path, message });
+  }
+
+  object(value: unknown, path: string, keys: string[]): value is Checked {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      this.report(path, 'must be an object');
+      return false;
+    }
+    Object.keys(value)
+      .filter(key => !keys.includes(key))
+      .forEach(key => this.report(`${path}.${key}`, 'unknown property'));
+    return true;
+  }
+
+  array(value: unknown, path: string): value is unknown[] {
+    if (!Array.isArray(value) || value.length === 0) {
+      this.report(path, 'must be a non-empty array');
+      return false;
+    }
+    return true;
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    { optional = false, integer = false, min = 0 } = {}
+  ): void {
+    if (value === undefined && optional) {
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(path, 'must be a number');
+    } else if (integer && !Number.isInteger(value)) {
+      this.report(path, 'must be an integer');
+    } else if (value < min) {
+      this.report(path, `must be at least ${min}`);
+    }
+  }
+
+  oneOf(value: unknown, path: string, allowed: string[]): boolean {
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.report(path, `must be one of ${allowed.join(', ')}`);
+      return false;
+    }
+    return true;
+  }
+
+  filter(value: unknown, path: string): void {
+    if (!this.object(value, path, ['type', ...filterKeys(value)])) {
+      return;
+    }
+    if (
+      !this.oneOf(value.type, `${path}.type`, Object.keys(FILTER_PROPERTIES))
+    ) {
+      return;
+    }
+    switch (value.type) {
+      case 'statusCodeAny':
+        if (this.array(value.statusCodes, `${path}.statusCodes`)) {
+          value.statusCodes.forEach((code, i) =>
+            this.number(code, `${path}.statusCodes[${i}]`, { integer: true })
+          );
+        }
+        break;
+      case 'statusCodeRange':
+        this.number(value.min, `${path}.min`, { integer: true });
+        this.number(value.max, `${path}.max`, { integer: true });
+        if ((value.min as number) > (value.max as number)) {
+          this.report(`${path}.max`, 'must be at least min');
+        }
+        break;
+      case 'keywordAny':
+      case 'keywordAll':
+        if (this.array(value.keywords, `${path}.keywords`)) {
+          value.keywords.forEach((keyword, i) => {
+            if (typeof keyword !== 'string') {
+              this.report(`${path}.keywords[${i}]`, 'must be a string');
+            }
+          });
+        }
+        break;
+      default:
+        if (this.array(value.filters, `${path}.filters`)) {
+          value.filters.forEach((filter, i) =>
+            this.filter(filter, `${path}.filters[${i}]`)
+          );
+        }
+    }
+  }
+
+  wait(value: unknown, path: string): void {
+    if (!this.object(value, path, ['type', ...waitKeys(value)])) {
+      return;
+    }
+    if (!this.oneOf(value.type, `${path}.type`, Object.keys(WAIT_PROPERTIES))) {
+      return;
+    }
+    switch (value.type) {
+      case 'fixed':
+        this.number(value.delayMs, `${path}.delayMs`);
+        break;
+      case 'linear':
+        this.number(value.initialDelayMs, `${path}.initialDelayMs`);
+        this.number(value.maxDelayMs, `${path}.maxDelayMs`, { optional: true });
+        this.number(value.backoffMultiplier, `${path}.backoffMultiplier`, {
+          optional: true,
+        });
+        break;
+      case 'exponential':
+        this.number(value.initialDelayMs, `${path}.initialDelayMs`);
+        this.number(value.maxDelayMs, `${path}.maxDelayMs`, { optional: true });
+        this.number(value.factor, `${path}.factor`, { optional: true });
+        if (value.jitter !== undefined) {
+          this.oneOf(value.jitter, `${path}.jitter`, JITTER_STRATEGIES);
+        }
+        break;
+      default:
+        this.number(value.maxDelayMs, `${path}.maxDelayMs`);
+        this.number(value.defaultDelayMs, `${path}.defaultDelayMs`, {
+          optional: true,
+        });
+    }
+  }
+
+  stage(value: unknown, path: string): void {
+    if (!this.object(value, path, ['filter', 'wait', 'maxRetries'])) {
+      return;
+    }
+    if (value.filter !== undefined) {
+      this.filter(value.filter, `${path}.filter`);
+    }
+    if (value.wait !== undefined) {
+      this.wait(value.wait, `${path}.wait`);
+    }
+    this.number(value.maxRetries, `${path}.maxRetries`, {
+      optional: true,
+      integer: true,
+    });
+  }
+
+  policy(value: unknown): void {
+    if (!this.object(value, '$', ['stages', 'timeoutMs', 'attemptTimeoutMs'])) {
+      return;
+    }
+    if (this.array(value.stages, '$.stages')) {
+      value.stages.forEach((stage, i) => this.stage(stage, `$.stages[${i}]`));
+    }
+    this.number(value.timeoutMs, '$.timeoutMs', { optional: true, min: 1 });
+    this.number(value.attemptTimeoutMs, '$.attemptTimeoutMs', {
+      optional: true,
+      min: 1,
+    });
+  }
+}
+
+const FILTER_PROPERTIES: Record<ErrorFilterConfig['type'], string[]> = {
+  statusCodeAny: ['statusCodes'],
+  statusCodeRange: ['min', 'max'],
+  keywordAny: ['keywords'],
+  keywordAll: ['keywords'],
+  all: ['filters'],
+  any: ['filters'],
+  none: ['filters'],
+};
+
+const WAIT_PROPERTIES: Record<WaitStrategy['type'], string[]> = {
+  fixed: ['delayMs'],
+  linear: ['initialDelayMs', 'maxDelayMs', 'backoffMultiplier'],
+  exponential: ['initialDelayMs', 'maxDelayMs', 'factor', 'jitter'],
+  retryAfter: ['maxDelayMs', 'defaultDelayMs'],
+};
+
+function filterKeys(value: unknown): string[] {
+  return FILTER_PROPERTIES[(value as Checked)?.type as never] ?? [];
+}
+
+function waitKeys(value: unknown): string[] {
+  return WAIT_PROPERTIES[(value as Checked)?.type as never] ?? [];
+}
+
+function compileErrorFilter(config: ErrorFilterConfig): ErrorFilter<any> {
+  switch (config.type) {
+    case 'statusCodeAny':
+      return statusCodeErrorFilterAny(config.statusCodes);
+    case 'statusCodeRange':
+      return statusCodeErrorFilterRange(config.min, config.max);
+    case 'keywordAny':
+      return keywordErrorFilterAny(config.keywords);
+    case 'keywordAll':
+      return keywordErrorFilterAll(config.keywords);
+    case 'all':
+      return allErrorFilter(config.filters.map(compileErrorFilter));
+    case 'any':
+      return anyErrorFilter(config.filters.map(compileErrorFilter));
+    case 'none':
+      return noneErrorFilter(config.filters.map(compileErrorFilter));
+  }
+}
+
+/**
+ * Validates a retry policy configuration.
+ *
+ * @param config - The configuration, parsed or as a JSON string.
+ * @returns The issues found, empty if the configuration is valid.
+ */
+export function validateRetryPolicyConfig(
+  config: unknown
+): PolicyValidationIssue[] {
+  const validator = new Validator();
+  if (typeof config === 'string') {
+    try {
+      config = JSON.parse(config);
+    } catch (error) {
+      validator.report('$', `invalid JSON (${(error as Error).message})`);
+      return validator.issues;
+    }
+  }
+  validator.policy(config);
+  return validator.issues;
+}
+
+/**
+ * Validates a retry policy configuration and compiles it to a RetryPolicy.
+ * YAML files can be loaded with any YAML parser and passed in as an object.
+ *
+ * @param config - The configuration, parsed or as a JSON string.
+ * @returns The retry policy.
+ * @throws PolicyValidationError listing all issues if the configuration is invalid.
+ */
+export function parseRetryPolicy(config: unknown): RetryPolicy {
+  const issues = validateRetryPolicyConfig(config);
+  if (issues.length > 0) {
+    throw new PolicyValidationError(issues);
+  }
+  const { stages, timeoutMs, attemptTimeoutMs }: RetryPolicyConfig =
+    typeof config === 'string' ? JSON.parse(config) : config;
+  let policy = stages.reduce<RetryPolicy | undefined>((previous, stage) => {
+    const filter = stage.filter ? compileErrorFilter(stage.filter) : undefined;
+    let next = previous ? previous.orElse(filter) : RetryPolicy.handle(filter);
+    if (stage.wait) {
+      next = next.wait(stage.wait);
+    }
+    return stage.maxRetries !== undefined
+      ? next.maxRetries(stage.maxRetries)
+      : next;
+  }, undefined) as RetryPolicy;
+  if (timeoutMs !== undefined) {
+    policy = policy.timeout(timeoutMs);
+  }
+  if (attemptTimeoutMs !== undefined) {
+    policy = policy.attemptTimeout(attemptTimeoutMs);
+  }
+  return policy;
+}
+
+/**
+ * Serializes a retry policy to its configuration, e.g. to store it as JSON or YAML.
+ * Only filters created by the built-in filter factories can be serialized.
+ *
+ * @param policy - The retry policy.
+ * @returns The configuration, parseRetryPolicy turns it back into an equivalent policy.
+ * @throws PolicyValidationError if the policy cannot be serialized.
+ */
+export function retryPolicyToConfig(policy: RetryPolicy): RetryPolicyConfig {
+  const issues: PolicyValidationIssue[] = [];
+  const stages = policy.definition.stages.map((stage, i) => {
+    const config: RetryPolicyStageConfig = {
+      wait: stage.wait,
+      maxRetries: stage.maxRetries,
+    };
+    if ('random' in stage.wait && stage.wait.random !== undefined) {
+      issues.push({
+        path: `$.stages[${i}].wait.random`,
+        message: 'a custom random source cannot be serialized',
+      });
+    }
+    if (stage.filter) {
+      config.filter = errorFilterToConfig(stage.filter);
+      if (!config.filter) {
+        issues.push({
+          path: `$.stages[${i}].filter`,
+          message:
+            'only filters created by the built-in filter factories can be serialized',
+        });
+      }
+    }
+    return config;
+  });
+  if (issues.length > 0) {
+    throw new PolicyValidationError(issues);
+  }
+  // Deep copy, so changing the configuration does not change the policy
+  return JSON.parse(
+    JSON.stringify({
+      stages,
+      timeoutMs: policy.definition.timeoutMs,
+      attemptTimeoutMs: policy.definition.attemptTimeoutMs,
+    })
+  );
+}
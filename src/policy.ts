@@ -0,0 +1,332 @@
+import {
+  advancedRetry,
+  ErrorResolverBase,
+  RetryContext,
+  RetryOptions,
+  RetryResult,
+} from './retry';
+import { CanHandleErrorFunction, ErrorFilter } from './filter/base';
+import { delayErrorResolver } from './resolver/delayed-retry-resolver';
+import {
+  ExponentialDelayPolicy,
+  exponentialErrorResolver,
+} from './resolver/exponential-retry-resolver';
+import {
+  RetryAfterPolicy,
+  retryAfterErrorResolver,
+} from './resolver/retry-after-resolver';
+
+const DEFAULT_MAX_RETRIES = 3;
+
+/**
+ * How long a stage of a retry policy waits before the next attempt.
+ * - fixed: always delayMs
+ * - linear: initialDelayMs * attempt * backoffMultiplier (defaults to 1), up to maxDelayMs, see DelayPolicy
+ * - exponential: see ExponentialDelayPolicy
+ * - retryAfter: the delay requested by the server, see RetryAfterPolicy
+ */
+export type WaitStrategy =
+  | { type: 'fixed'; delayMs: number }
+  | {
+      type: 'linear';
+      initialDelayMs: number;
+      maxDelayMs?: number;
+      backoffMultiplier?: number;
+    }
+  | ({ type: 'exponential' } & Omit<ExponentialDelayPolicy, 'maxRetries'>)
+  | ({ type: 'retryAfter' } & Omit<RetryAfterPolicy, 'maxRetries'>);
+
+/**
+ * A stage of a retry policy, turned into one error resolver.
+ *
+ * @property filter - The errors handled by the stage, all errors if not set.
+ * @property wait - How long to wait before the next attempt.
+ * @property maxRetries - Maximum number of retries of the stage.
+ */
+export interface RetryPolicyStage<X> {
+  readonly filter?: CanHandleErrorFunction<X> | ErrorFilter<X>;
+  readonly wait: WaitStrategy;
+  readonly maxRetries: number;
+}
+
+/**
+ * Everything a retry policy is made of, plain data apart from the filters.
+ *
+ * @property stages - The stages, in the order errors are offered to them.
+ * @property timeoutMs - The overall timeout in milliseconds.
+ * @property attemptTimeoutMs - The timeout of a single attempt in milliseconds.
+ */
+export interface RetryPolicyDefinition<X> {
+  readonly stages: readonly RetryPolicyStage<X>[];
+  readonly timeoutMs?: number;
+  readonly attemptTimeoutMs?: number;
+}
+
+function toResolver<X>(
+  stage: RetryPolicyStage<X>
+): ErrorResolverBase<RetryContext<X>, X> {
+  const { filter: canHandleError, wait, maxRetries } = stage;
+  switch (wait.type) {
+    case 'fixed':
+      return exponentialErrorResolver<X>({
+        configuration: { maxRetries, initialDelayMs: wait.delayMs, factor: 1 },
+        canHandleError,
+      });
+    case 'linear':
+      return delayErrorResolver<X>({
+        configuration: {
+          maxRetries,
+          initialDelayMs: wait.initialDelayMs,
+          maxDelayMs: wait.maxDelayMs,
+          backoffMultiplier: wait.backoffMultiplier,
+        },
+        canHandleError,
+      });
+    case 'exponential': {
+      const { type, ...configuration } = wait;
+      return exponentialErrorResolver<X>({
+        configuration: { ...configuration, maxRetries },
+        canHandleError,
+      });
+    }
+    case 'retryAfter': {
+      const { type, ...configuration } = wait;
+      return retryAfterErrorResolver<X>({
+        configuration: { ...configuration, maxRetries },
+        canHandleError,
+      });
+    }
+  }
+}
+
+/**
+ * Combines the stages into one resolver, so they do not depend on how advancedRetry moves between resolvers.
+ * An error is offered to the stages in order, starting with the stage that retried the previous error.
+ * A stage that cannot handle the error or has no retries left passes it on to the next stage right away.
+ * The current stage is kept per context returned, so concurrent operations can share the resolver.
+ */
+function toStagesResolver<X>(
+  stages: readonly RetryPolicyStage<X>[]
+): ErrorResolverBase<RetryContext<X>, X> {
+  const resolvers = stages.map(stage => toResolver(stage));
+  const positions = new WeakMap<
+    RetryContext<X>,
+    { stage: number; retries: number }
+  >();
+  return async ({ error, retryContext, abortSignal }) => {
+    let { stage, retries } = positions.get(retryContext) ?? {
+      stage: 0,
+      retries: 0,
+    };
+    for (; stage < resolvers.length; stage++, retries = 0) {
+      const resolution = await resolvers[stage]({
+        error,
+        attempt: retries,
+        retryContext,
+        abortSignal,
+      });
+      if (resolution.remainingAttempts > 0) {
+        const context = { ...resolution.context };
+        positions.set(context, { stage, retries: retries + 1 });
+        return { ...resolution, context };
+      }
+    }
+    return {
+      remainingAttempts: 0,
+      unrecoverable: false,
+      context: retryContext,
+    };
+  };
+}
+
+/**
+ * Fluent and immutable builder for error resolvers and retry options.
+ * Every method returns a new policy, so a policy can be shared and extended safely.
+ *
+ * @example
+ * const policy = RetryPolicy.handle(serverErrorErrorFilter)
+ *   .waitExponential({ initialDelayMs: 100, maxDelayMs: 5000 })
+ *   .maxRetries(5)
+ *   .orElse(keywordErrorFilterAny(['ECONNRESET']))
+ *   .waitFixed(1000)
+ *   .timeout(30000);
+ * const result = await policy.execute(() => fetchData());
+ */
+export class RetryPolicy<X = any> {
+  private constructor(readonly definition: RetryPolicyDefinition<X>) {
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a policy from its definition.
+   *
+   * @param definition - The stages and timeouts of the policy.
+   */
+  static from<X = any>(definition: RetryPolicyDefinition<X>): RetryPolicy<X> {
+    return new RetryPolicy<X>(
+      Object.freeze({
+        ...definition,
+        stages: Object.freeze(
+          definition.stages.map(stage =>
+            Object.freeze({ ...stage, wait: Object.freeze({ ...stage.wait }) })
+          )
+        ),
+      })
+    );
+  }
+
+  /**
+   * Creates a policy with a first stage handling the errors matching the filter.
+   * The stage retries up to 3 times without delay, until configured otherwise.
+   *
+   * @param filter - The errors handled by the stage, all errors if not set.
+   */
+  static handle<X = any>(
+    filter?: CanHandleErrorFunction<X> | ErrorFilter<X>
+  ): RetryPolicy<X> {
+    return RetryPolicy.from<X>({ stages: [] }).orElse(filter);
+  }
+
+  /**
+   * Adds a stage for the errors the previous stages cannot handle or gave up on.
+   *
+   * @param filter - The errors handled by the stage, all errors if not set.
+   */
+  orElse(filter?: CanHandleErrorFunction<X> | ErrorFilter<X>): RetryPolicy<X> {
+    return RetryPolicy.from({
+      ...this.definition,
+      stages: [
+        ...this.definition.stages,
+        {
+          filter,
+          wait: { type: 'fixed', delayMs: 0 },
+          maxRetries: DEFAULT_MAX_RETRIES,
+        },
+      ],
+    });
+  }
+
+  /**
+   * Sets the maximum number of retries of the current stage.
+   * Like all methods configuring the current stage, it throws if the policy has no stage.
+   */
+  maxRetries(maxRetries: number): RetryPolicy<X> {
+    return this.withStage({ maxRetries });
+  }
+
+  /**
+   * Sets how long the current stage waits before every retry.
+   */
+  wait(wait: WaitStrategy): RetryPolicy<X> {
+    return this.withStage({ wait });
+  }
+
+  /**
+   * Waits the same delay before every retry of the current stage.
+   */
+  waitFixed(delayMs: number): RetryPolicy<X> {
+    return this.wait({ type: 'fixed', delayMs });
+  }
+
+  /**
+   * Waits initialDelayMs * attempt * backoffMultiplier before every retry of the current stage, up to maxDelayMs.
+   */
+  waitLinear(
+    initialDelayMs: number,
+    maxDelayMs?: number,
+    backoffMultiplier?: number
+  ): RetryPolicy<X> {
+    return this.wait({
+      type: 'linear',
+      initialDelayMs,
+      maxDelayMs,
+      backoffMultiplier,
+    });
+  }
+
+  /**
+   * Waits an exponentially growing delay before every retry of the current stage.
+   */
+  waitExponential(
+    configuration: Omit<ExponentialDelayPolicy, 'maxRetries'>
+  ): RetryPolicy<X> {
+    return this.wait({ type: 'exponential', ...configuration });
+  }
+
+  /**
+   * Waits as long as the server asks for before every retry of the current stage.
+   */
+  waitRetryAfter(
+    configuration: Omit<RetryAfterPolicy, 'maxRetries'>
+  ): RetryPolicy<X> {
+    return this.wait({ type: 'retryAfter', ...configuration });
+  }
+
+  /**
+   * Sets the overall timeout of the operation.
+   */
+  timeout(timeoutMs: number): RetryPolicy<X> {
+    return RetryPolicy.from({ ...this.definition, timeoutMs });
+  }
+
+  /**
+   * Sets the timeout of a single attempt.
+   */
+  attemptTimeout(attemptTimeoutMs: number): RetryPolicy<X> {
+    return RetryPolicy.from({ ...this.definition, attemptTimeoutMs });
+  }
+
+  /**
+   * Creates the error resolvers of the policy: a single resolver offering every error to the stages in order.
+   */
+  toResolvers(): Array<ErrorResolverBase<RetryContext<X>, X>> {
+    return [toStagesResolver(this.definition.stages)];
+  }
+
+  /**
+   * Creates the options to pass to advancedRetry, together with the operation.
+   */
+  toOptions<T>(): Omit<RetryOptions<T, X>, 'operation'> {
+    return {
+      errorResolvers: this.toResolvers(),
+      overallTimeout: this.definition.timeoutMs,
+      attemptTimeout: this.definition.attemptTimeoutMs,
+    };
+  }
+
+  /**
+   * Runs the operation with advancedRetry using this policy.
+   *
+   * @param operation - The operation to retry.
+   * @param options - Additional options, e.g. hooks or an abort signal.
+   */
+  execute<T>(
+    operation: RetryOptions<T, X>['operation'],
+    options: Omit<
+      RetryOptions<T, X>,
+      'operation' | 'errorResolvers' | 'policy' | 'policyRegistry'
+    > = {}
+  ): Promise<RetryResult<T>> {
+    return advancedRetry<T, X>({
+      ...this.toOptions<T>(),
+      ...options,
+      operation,
+    });
+  }
+
+  private withStage(changes: Partial<RetryPolicyStage<X>>): RetryPolicy<X> {
+    const stages = this.definition.stages;
+    if (stages.length === 0) {
+      throw new Error(
+        'The policy has no stage to configure, add one with orElse first'
+      );
+    }
+    return RetryPolicy.from({
+      ...this.definition,
+      stages: [
+        ...stages.slice(0, -1),
+        { ...stages[stages.length - 1], ...changes },
+      ],
+    });
+  }
+}
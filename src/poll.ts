@@ -0,0 +1,84 @@
+import { advancedRetry, RetryResult } from './retry';
+import { Clock } from './clock';
+import { RejectedResultError } from './errors';
+import {
+  ExponentialDelayPolicy,
+  exponentialErrorResolver,
+} from './resolver/exponential-retry-resolver';
+
+/**
+ * Progress of a poll, reported after every incomplete result.
+ *
+ * @param attempt - The number of the poll, starting at 1.
+ * @param result - The incomplete result.
+ * @param elapsedMs - The time elapsed since polling started, in milliseconds.
+ * @param delayMs - The delay before the next poll, in milliseconds.
+ */
+export interface PollProgress<T> {
+  attempt: number;
+  result: T;
+  elapsedMs: number;
+  delayMs: number;
+}
+
+/**
+ * Options for polling.
+ *
+ * @param operation - The operation to poll, e.g. fetching the status of a job.
+ * @param isComplete - Whether the result is final. Polling continues until it returns true.
+ * @param delay - The delay between polls. The delay grows by factor (defaults to 2) after every poll, up to maxDelayMs.
+ * @param maxWaitMs - The maximum time to poll for. The poll fails with a RetryTimeoutError once it is reached.
+ * @param maxAttempts - The maximum number of polls.
+ * @param onProgress - Called after every incomplete result, before waiting for the next poll.
+ * @param abortSignal - An optional abort signal to stop polling.
+ * @param clock - The source of time and timers, defaults to the system clock.
+ */
+export interface PollOptions<T> {
+  operation: (abortSignal?: AbortSignal) => Promise<T> | T;
+  isComplete: (result: T) => boolean;
+  delay: Omit<ExponentialDelayPolicy, 'maxRetries'>;
+  maxWaitMs?: number;
+  maxAttempts?: number;
+  onProgress?: (progress: PollProgress<T>) => void;
+  abortSignal?: AbortSignal;
+  clock?: Clock;
+}
+
+/**
+ * Polls an operation until its result is complete.
+ * Errors thrown by the operation stop polling, the result is returned as failed.
+ *
+ * @returns The result of the operation. If polling failed, rejectedResult holds the last incomplete result.
+ */
+export async function poll<T>({
+  operation,
+  isComplete,
+  delay,
+  maxWaitMs = undefined,
+  maxAttempts = Infinity,
+  onProgress = undefined,
+  abortSignal = undefined,
+  clock = undefined,
+}: PollOptions<T>): Promise<RetryResult<T>> {
+  return advancedRetry<T, unknown>({
+    operation: (_, signal) => operation(signal),
+    errorResolvers: [
+      exponentialErrorResolver({
+        configuration: { ...delay, maxRetries: maxAttempts - 1 },
+        canHandleError: error => error instanceof RejectedResultError,
+      }),
+    ],
+    shouldRetryResult: result => !isComplete(result),
+    overallTimeout: maxWaitMs,
+    abortSignal,
+    clock,
+    onRetryScheduled: event => {
+      onProgress?.({
+        attempt: event.attempt,
+        result: (event.error as RejectedResultError<T>).result,
+        elapsedMs: event.elapsedMs,
+        delayMs: event.delayMs,
+      });
+    },
+  });
+}
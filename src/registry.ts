@@ -0,0 +1,85 @@
+import { PolicyValidationError, UnknownPolicyError } from './errors';
+import { RetryPolicy } from './policy';
+import {
+  parseRetryPolicy,
+  RetryPolicyConfig,
+  validateRetryPolicyConfig,
+} from './policy-config';
+
+/**
+ * Registry of retry policies by name, e.g. one per upstream service.
+ * Policies are looked up when an operation starts, so replacing a policy affects subsequent calls,
+ * while calls already running keep the policy they started with.
+ */
+export class RetryPolicyRegistry {
+  private readonly policies = new Map<string, RetryPolicy>();
+
+  /**
+   * Registers a policy, replacing any policy registered under the same name.
+   *
+   * @param name - The name of the policy, e.g. payments-api.
+   * @param policy - The policy, or its configuration, parsed or as a JSON string.
+   * @throws PolicyValidationError if the configuration is invalid.
+   */
+  register(
+    name: string,
+    policy: RetryPolicy | RetryPolicyConfig | string
+  ): this {
+    this.policies.set(
+      name,
+      policy instanceof RetryPolicy ? policy : parseRetryPolicy(policy)
+    );
+    return this;
+  }
+
+  /**
+   * Registers policies from their configurations, e.g. after the configuration file changed.
+   * Either all policies are registered, or none if any configuration is invalid.
+   *
+   * @param configs - The configurations by policy name.
+   * @throws PolicyValidationError listing the issues of all configurations.
+   */
+  load(configs: Record<string, unknown>): this {
+    const issues = Object.entries(configs).flatMap(([name, config]) =>
+      validateRetryPolicyConfig(config).map(issue => ({
+        ...issue,
+        path: issue.path.replace(/^\$/, `$[${JSON.stringify(name)}]`),
+      }))
+    );
+    if (issues.length > 0) {
+      throw new PolicyValidationError(issues);
+    }
+    Object.entries(configs).forEach(([name, config]) =>
+      this.register(name, config as RetryPolicyConfig)
+    );
+    return this;
+  }
+
+  /**
+   * @throws UnknownPolicyError if no policy is registered under the name.
+   */
+  get(name: string): RetryPolicy {
+    const policy = this.policies.get(name);
+    if (!policy) {
+      throw new UnknownPolicyError(name);
+    }
+    return policy;
+  }
+
+  has(name: string): boolean {
+    return this.policies.has(name);
+  }
+
+  delete(name: string): boolean {
+    return this.policies.delete(name);
+  }
+
+  names(): string[] {
+    return [...this.policies.keys()];
+  }
+}
+
+/**
+ * The registry advancedRetry looks up policy names in, unless another registry is passed.
+ */
+export const defaultRetryPolicyRegistry = new RetryPolicyRegistry();
@@ -0,0 +1,221 @@
+import { ErrorResolution, ErrorResolverBase, RetryContext } from '../retry';
+import {
+  CanHandleErrorFunction,
+  ErrorFilter,
+  toErrorFilter,
+} from '../filter/base';
+import { Clock, systemClock } from '../clock';
+
+/**
+ * @description State of a circuit breaker
+ * - closed: attempts pass through, failures are counted
+ * - open: attempts fail fast with a CircuitOpenError
+ * - half-open: a limited number of probe attempts pass through to check if the dependency recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * @description Circuit breaker policy
+ * @property failureThreshold - Number of consecutive failures that open the circuit
+ * @property resetTimeoutMs - Time in milliseconds the circuit stays open before probe attempts are let through
+ * @property halfOpenMaxAttempts - Number of concurrent probe attempts allowed while half-open (defaults to 1).
+ * A probe that did not report back within resetTimeoutMs, e.g. because it hangs or was abandoned on a timeout, frees its slot
+ */
+export interface CircuitBreakerPolicy {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  halfOpenMaxAttempts?: number;
+}
+
+/**
+ * @description A state transition of a circuit breaker
+ */
+export interface CircuitStateTransition {
+  from: CircuitState;
+  to: CircuitState;
+  timestamp: number;
+}
+
+/**
+ * @description Error thrown instead of running the attempt while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(
+    public readonly state: CircuitState,
+    public readonly retryAfterMs: number
+  ) {
+    super('Circuit is open');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * @description Circuit breaker, create it once and share it between all calls to the same dependency
+ * @property state - The current state of the circuit
+ * @property failures - The number of consecutive failures
+ * @property acquire - Called before an attempt, throws a CircuitOpenError if the attempt is not allowed
+ * @property recordSuccess - Records a successful attempt
+ * @property recordFailure - Records a failed attempt
+ * @property reset - Closes the circuit and clears the failures
+ * @property onStateChange - Registers a listener for state transitions, returns a function to unregister it
+ */
+export interface CircuitBreaker {
+  readonly state: CircuitState;
+  readonly failures: number;
+  acquire: () => void;
+  recordSuccess: () => void;
+  recordFailure: () => void;
+  reset: () => void;
+  onStateChange: (
+    listener: (transition: CircuitStateTransition) => void
+  ) => () => void;
+}
+
+/**
+ * @description Creates a circuit breaker
+ * @param configuration - Circuit breaker policy
+ * @param clock - The source of time, defaults to the system clock
+ * @returns Circuit breaker
+ */
+export function createCircuitBreaker(
+  configuration: CircuitBreakerPolicy,
+  clock: Clock = systemClock
+): CircuitBreaker {
+  const halfOpenMaxAttempts = configuration.halfOpenMaxAttempts ?? 1;
+  const listeners = new Set<(transition: CircuitStateTransition) => void>();
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  // Start times of the probes running while half-open
+  let probes: number[] = [];
+
+  const transition = (to: CircuitState) => {
+    if (state === to) {
+      return;
+    }
+    const change = { from: state, to, timestamp: clock.now() };
+    state = to;
+    probes = [];
+    if (to === 'open') {
+      openedAt = change.timestamp;
+    }
+    if (to === 'closed') {
+      failures = 0;
+    }
+    listeners.forEach(listener => listener(change));
+  };
+
+  // The open state times out lazily, the next time the state is read
+  const currentState = () => {
+    if (
+      state === 'open' &&
+      clock.now() - openedAt >= configuration.resetTimeoutMs
+    ) {
+      transition('half-open');
+    }
+    return state;
+  };
+
+  return {
+    get state() {
+      return currentState();
+    },
+    get failures() {
+      return failures;
+    },
+    acquire() {
+      const current = currentState();
+      if (current === 'closed') {
+        return;
+      }
+      const now = clock.now();
+      if (current === 'half-open') {
+        probes = probes.filter(
+          startTime => now - startTime < configuration.resetTimeoutMs
+        );
+        if (probes.length < halfOpenMaxAttempts) {
+          probes.push(now);
+          return;
+        }
+      }
+      // While half-open, the next attempt is let through once the oldest probe expired
+      const since = current === 'open' ? openedAt : probes[0];
+      throw new CircuitOpenError(
+        current,
+        Math.max(configuration.resetTimeoutMs - (now - since), 0)
+      );
+    },
+    recordSuccess() {
+      if (state === 'half-open') {
+        transition('closed');
+      }
+      failures = 0;
+    },
+    recordFailure() {
+      failures++;
+      if (state === 'half-open' || failures >= configuration.failureThreshold) {
+        transition('open');
+      }
+    },
+    reset() {
+      transition('closed');
+      failures = 0;
+    },
+    onStateChange(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * @description Circuit breaker error resolver wraps another resolver. While the circuit is open, attempts fail fast with a CircuitOpenError and no more retries are made.
+ * Otherwise the error is passed to the wrapped resolver.
+ * @param circuitBreaker - The (shared) circuit breaker
+ * @param resolver - The resolver deciding about retries while the circuit is closed
+ * @param canHandleError - Used to filter the errors counted as failures. Other errors are counted as successful calls to the dependency
+ * @returns Error resolver
+ */
+export const circuitBreakerErrorResolver = <X = any | undefined>({
+  circuitBreaker,
+  resolver,
+  canHandleError = undefined,
+}: {
+  circuitBreaker: CircuitBreaker;
+  resolver: ErrorResolverBase<RetryContext<X>, X>;
+  canHandleError?: CanHandleErrorFunction<X> | ErrorFilter<X>;
+}): ErrorResolverBase<RetryContext<X>, X> => {
+  const errorResolver: ErrorResolverBase<RetryContext<X>, X> = async args => {
+    if (circuitBreaker.state !== 'closed') {
+      return {
+        remainingAttempts: 0,
+        unrecoverable: true,
+        context: args.retryContext,
+      } as ErrorResolution<RetryContext<X>, X>;
+    }
+    return resolver(args);
+  };
+  errorResolver.beforeAttempt = args => {
+    circuitBreaker.acquire();
+    resolver.beforeAttempt?.(args);
+  };
+  errorResolver.afterAttempt = args => {
+    if (
+      !args.success &&
+      (!canHandleError ||
+        toErrorFilter(canHandleError).canHandleError(
+          args.error,
+          args.attempt,
+          args.retryContext
+        ))
+    ) {
+      circuitBreaker.recordFailure();
+    } else {
+      circuitBreaker.recordSuccess();
+    }
+    resolver.afterAttempt?.(args);
+  };
+  return errorResolver;
+};
@@ -27,6 +27,7 @@ export const customErrorResolver =
      * @param configuration - The configuration defined when the resolver was created
      * @param context - The context passed from the previous handler or iteration
      * @param abortSignal - The abort signal, if you have a long running operation, consider implementing it.
+     * @returns The resolution, optionally with a delay in milliseconds to wait before the next attempt
      */
     callback: (
       error: Error,
@@ -39,11 +40,13 @@ export const customErrorResolver =
           context?: X;
           remainingAttempts: number;
           unrecoverable: boolean;
+          delayMs?: number;
         }>
       | {
           context?: X;
           remainingAttempts: number;
           unrecoverable: boolean;
+          delayMs?: number;
         };
   }): ErrorResolverBase<RetryContext<X>, X> =>
   async ({ error, attempt, retryContext: context, abortSignal }) => {
@@ -64,6 +67,7 @@ export const customErrorResolver =
         remainingAttempts: r.remainingAttempts,
         unrecoverable: r.unrecoverable,
         context: { data: r.context },
+        delayMs: r.delayMs,
       };
     }
     return {
@@ -5,18 +5,6 @@ import {
   toErrorFilter,
 } from '../filter/base';
 
-async function sleep(ms: number, abortSignal?: AbortSignal) {
-  return new Promise(resolve => {
-    if (ms < 0) ms = 0;
-    const timeout = setTimeout(() => resolve(undefined), ms);
-    if (abortSignal) {
-      abortSignal.addEventListener('abort', () => {
-        clearTimeout(timeout);
-        resolve(undefined);
-      });
-    }
-  });
-}
 /**
  * @description Delayed retry policy is used to configure the delay between retries and the maximum number of retries
  * @property maxRetries - Maximum number of retries
@@ -57,7 +45,7 @@ export const delayErrorResolver =
     configuration: DelayPolicy;
     canHandleError?: CanHandleErrorFunction<X> | ErrorFilter<X>;
   }): ErrorResolverBase<RetryContext<X>, X> =>
-  async ({ error, attempt, retryContext: context, abortSignal }) => {
+  async ({ error, attempt, retryContext: context }) => {
     if (
       !canHandleError ||
       toErrorFilter(canHandleError).canHandleError(error, attempt, context)
@@ -80,11 +68,11 @@ export const delayErrorResolver =
             : (configuration.initialDelayMs ?? 0) *
               (attempt + 1) *
               (configuration.backoffMultiplier ?? 1);
-      await sleep(delay, abortSignal);
       return {
         remainingAttempts: configuration.maxRetries - attempt,
         unrecoverable: false,
         context: { data: undefined as unknown as X },
+        delayMs: Math.max(delay, 0),
       } as ErrorResolution<RetryContext<X>, X>;
     }
     return {
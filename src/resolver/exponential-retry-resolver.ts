@@ -0,0 +1,114 @@
+import { ErrorResolution, ErrorResolverBase, RetryContext } from '../retry';
+import {
+  CanHandleErrorFunction,
+  ErrorFilter,
+  toErrorFilter,
+} from '../filter/base';
+
+/**
+ * @description Jitter strategy applied on top of the exponential delay
+ * - none: the exponential delay is used as is
+ * - full: a random delay between 0 and the exponential delay
+ * - equal: half of the exponential delay plus a random delay up to the other half
+ * - decorrelated: a random delay between initialDelayMs and three times the previous delay
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * @description Exponential retry policy is used to configure an exponentially growing delay between retries
+ * @property maxRetries - Maximum number of retries
+ * @property initialDelayMs - Delay of the first retry in milliseconds
+ * @property maxDelayMs - Maximum delay in milliseconds, applied after the jitter
+ * @property factor - Growth factor, the delay is calculated as initialDelayMs * factor ^ attempt (defaults to 2)
+ * @property jitter - Jitter strategy (defaults to none)
+ * @property random - Random source returning a number in [0, 1), defaults to Math.random. Inject it to get deterministic delays
+ */
+export interface ExponentialDelayPolicy {
+  maxRetries: number;
+  initialDelayMs: number;
+  maxDelayMs?: number;
+  factor?: number;
+  jitter?: JitterStrategy;
+  random?: () => number;
+}
+
+/**
+ * @description Calculates the delay of an exponential retry policy
+ * @param configuration - Exponential retry policy
+ * @param attempt - The attempt number. The first attempt is 0, the second is 1, etc.
+ * @param previousDelayMs - The delay of the previous attempt, only used by the decorrelated jitter
+ * @returns The delay in milliseconds
+ */
+export function exponentialDelay(
+  configuration: ExponentialDelayPolicy,
+  attempt: number,
+  previousDelayMs?: number
+): number {
+  const random = configuration.random ?? Math.random;
+  const initialDelayMs = Math.max(configuration.initialDelayMs, 0);
+  const maxDelayMs = configuration.maxDelayMs ?? Infinity;
+  const base = Math.min(
+    initialDelayMs * Math.pow(configuration.factor ?? 2, attempt),
+    maxDelayMs
+  );
+
+  switch (configuration.jitter ?? 'none') {
+    case 'full':
+      return random() * base;
+    case 'equal':
+      return base / 2 + (random() * base) / 2;
+    case 'decorrelated': {
+      const upper = (previousDelayMs ?? initialDelayMs) * 3;
+      return Math.min(
+        initialDelayMs + random() * (upper - initialDelayMs),
+        maxDelayMs
+      );
+    }
+    default:
+      return base;
+  }
+}
+
+/**
+ * @description Exponential retry error resolver is used to handle the error and retry the operation after an exponentially growing delay
+ * @param configuration - Exponential retry policy
+ * @param canHandleError - Can handle error function
+ * @returns Error resolver
+ */
+export const exponentialErrorResolver = <X = any | undefined>({
+  configuration,
+  canHandleError = undefined,
+}: {
+  configuration: ExponentialDelayPolicy;
+  canHandleError?: CanHandleErrorFunction<X> | ErrorFilter<X>;
+}): ErrorResolverBase<RetryContext<X>, X> => {
+  // The decorrelated jitter depends on the previous delay. It is keyed by the context handed
+  // to the next iteration, so a resolver shared between operations keeps them apart.
+  const previousDelays = new WeakMap<RetryContext<X>, number>();
+
+  return async ({ error, attempt, retryContext: context }) => {
+    if (
+      !canHandleError ||
+      toErrorFilter(canHandleError).canHandleError(error, attempt, context)
+    ) {
+      const delay = exponentialDelay(
+        configuration,
+        attempt,
+        previousDelays.get(context)
+      );
+      const nextContext = { data: undefined as unknown as X };
+      previousDelays.set(nextContext, delay);
+      return {
+        remainingAttempts: configuration.maxRetries - attempt,
+        unrecoverable: false,
+        context: nextContext,
+        delayMs: delay,
+      } as ErrorResolution<RetryContext<X>, X>;
+    }
+    return {
+      remainingAttempts: -1,
+      unrecoverable: false,
+      context: { data: undefined as unknown as X },
+    } as ErrorResolution<RetryContext<X>, X>;
+  };
+};
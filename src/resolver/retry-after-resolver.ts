@@ -0,0 +1,109 @@
+import { ErrorResolution, ErrorResolverBase, RetryContext } from '../retry';
+import {
+  CanHandleErrorFunction,
+  ErrorFilter,
+  toErrorFilter,
+} from '../filter/base';
+import { errorToHeader } from '../filter/header-filter';
+import { Clock, systemClock } from '../clock';
+
+// Values above this are treated as unix timestamps instead of a number of seconds
+const UNIX_TIMESTAMP_THRESHOLD_SECONDS = 1e9;
+
+/**
+ * @description Retry-After policy is used to wait as long as the server asks for
+ * @property maxRetries - Maximum number of retries
+ * @property maxDelayMs - Maximum delay in milliseconds, longer delays requested by the server are capped
+ * @property defaultDelayMs - Delay used if the error has no usable header. If not set, such errors are passed to the next resolver
+ */
+export interface RetryAfterPolicy {
+  maxRetries: number;
+  maxDelayMs: number;
+  defaultDelayMs?: number;
+}
+
+function parseSeconds(value: string): number | null {
+  return /^\s*\d+(\.\d+)?\s*$/.test(value) ? parseFloat(value) : null;
+}
+
+/**
+ * @description Reads the delay requested by the server from the Retry-After, RateLimit-Reset or X-RateLimit-Reset header of the error
+ * @param error - The error that occurred
+ * @param now - The current time in milliseconds
+ * @returns The delay in milliseconds or null if no usable header was found
+ */
+export function errorToRetryAfterMs(
+  error: unknown,
+  now: number = Date.now()
+): number | null {
+  // Retry-After: <seconds> | <http-date>
+  const retryAfter = errorToHeader(error, 'retry-after');
+  if (retryAfter !== null) {
+    const seconds = parseSeconds(retryAfter);
+    if (seconds !== null) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(date - now, 0);
+    }
+  }
+
+  // RateLimit-Reset: <seconds>
+  const rateLimitReset = errorToHeader(error, 'ratelimit-reset');
+  const rateLimitSeconds =
+    rateLimitReset !== null ? parseSeconds(rateLimitReset) : null;
+  if (rateLimitSeconds !== null) {
+    return rateLimitSeconds * 1000;
+  }
+
+  // X-RateLimit-Reset: <seconds> | <unix timestamp in seconds>
+  const xRateLimitReset = errorToHeader(error, 'x-ratelimit-reset');
+  const xRateLimitSeconds =
+    xRateLimitReset !== null ? parseSeconds(xRateLimitReset) : null;
+  if (xRateLimitSeconds !== null) {
+    return xRateLimitSeconds > UNIX_TIMESTAMP_THRESHOLD_SECONDS
+      ? Math.max(xRateLimitSeconds * 1000 - now, 0)
+      : xRateLimitSeconds * 1000;
+  }
+  return null;
+}
+
+/**
+ * @description Retry-After error resolver is used to retry the operation after the delay requested by the server, e.g. on HTTP 429 or 503 responses
+ * @param configuration - Retry-After policy
+ * @param canHandleError - Can handle error function
+ * @param clock - The source of time for HTTP dates and timestamps, defaults to the system clock
+ * @returns Error resolver
+ */
+export const retryAfterErrorResolver =
+  <X = any | undefined>({
+    configuration,
+    canHandleError = undefined,
+    clock = systemClock,
+  }: {
+    configuration: RetryAfterPolicy;
+    canHandleError?: CanHandleErrorFunction<X> | ErrorFilter<X>;
+    clock?: Clock;
+  }): ErrorResolverBase<RetryContext<X>, X> =>
+  async ({ error, attempt, retryContext: context }) => {
+    const retryAfterMs =
+      errorToRetryAfterMs(error, clock.now()) ?? configuration.defaultDelayMs;
+    if (
+      retryAfterMs !== undefined &&
+      (!canHandleError ||
+        toErrorFilter(canHandleError).canHandleError(error, attempt, context))
+    ) {
+      return {
+        remainingAttempts: configuration.maxRetries - attempt,
+        unrecoverable: false,
+        context: { data: undefined as unknown as X },
+        delayMs: Math.min(retryAfterMs, configuration.maxDelayMs),
+      } as ErrorResolution<RetryContext<X>, X>;
+    }
+    return {
+      remainingAttempts: -1,
+      unrecoverable: false,
+      context: { data: undefined as unknown as X },
+    } as ErrorResolution<RetryContext<X>, X>;
+  };
@@ -0,0 +1,120 @@
+import { ErrorResolverBase, RetryContext } from '../retry';
+import { Clock, systemClock } from '../clock';
+
+/**
+ * @description Retry budget policy, e.g. retries may be at most 20% of the requests over a 10s window
+ * @property ratio - Retries allowed per request made in the window (e.g. 0.2)
+ * @property windowMs - Length of the sliding window in milliseconds
+ * @property minRetriesPerWindow - Retries always allowed in the window, independent of the number of requests (defaults to 0)
+ */
+export interface RetryBudgetPolicy {
+  ratio: number;
+  windowMs: number;
+  minRetriesPerWindow?: number;
+}
+
+/**
+ * @description Error reported when a retry was denied because the retry budget is exhausted
+ * @property cause - The error of the attempt that would have been retried
+ */
+export class RetryBudgetExhaustedError extends Error {
+  constructor(public readonly cause: unknown) {
+    super('Retry budget exhausted');
+    this.name = 'RetryBudgetExhaustedError';
+  }
+}
+
+/**
+ * @description Retry budget, create it once and share it between all operations it should limit
+ * @property available - The number of retries currently available
+ * @property recordRequest - Records a request (a first attempt), which adds to the budget
+ * @property tryAcquireRetry - Takes a retry from the budget, returns false if the budget is exhausted
+ */
+export interface RetryBudget {
+  readonly available: number;
+  recordRequest: () => void;
+  tryAcquireRetry: () => boolean;
+}
+
+/**
+ * @description Creates a retry budget
+ * @param configuration - Retry budget policy
+ * @param clock - The source of time, defaults to the system clock
+ * @returns Retry budget
+ */
+export function createRetryBudget(
+  configuration: RetryBudgetPolicy,
+  clock: Clock = systemClock
+): RetryBudget {
+  const requests: number[] = [];
+  const retries: number[] = [];
+
+  const available = () => {
+    const windowStart = clock.now() - configuration.windowMs;
+    while (requests.length > 0 && requests[0] <= windowStart) requests.shift();
+    while (retries.length > 0 && retries[0] <= windowStart) retries.shift();
+    return Math.max(
+      Math.floor(
+        (configuration.minRetriesPerWindow ?? 0) +
+          requests.length * configuration.ratio
+      ) - retries.length,
+      0
+    );
+  };
+
+  return {
+    get available() {
+      return available();
+    },
+    recordRequest() {
+      requests.push(clock.now());
+    },
+    tryAcquireRetry() {
+      if (available() <= 0) {
+        return false;
+      }
+      retries.push(clock.now());
+      return true;
+    },
+  };
+}
+
+/**
+ * @description Retry budget error resolver wraps another resolver. Every retry granted by the wrapped resolver is taken from the budget,
+ * if the budget is exhausted the operation becomes unrecoverable and fails with a RetryBudgetExhaustedError
+ * @param retryBudget - The (shared) retry budget
+ * @param resolver - The resolver deciding about retries
+ * @returns Error resolver
+ */
+export const retryBudgetErrorResolver = <X = any | undefined>({
+  retryBudget,
+  resolver,
+}: {
+  retryBudget: RetryBudget;
+  resolver: ErrorResolverBase<RetryContext<X>, X>;
+}): ErrorResolverBase<RetryContext<X>, X> => {
+  const errorResolver: ErrorResolverBase<RetryContext<X>, X> = async args => {
+    const resolution = await resolver(args);
+    if (
+      !resolution.unrecoverable &&
+      resolution.remainingAttempts > 0 &&
+      !retryBudget.tryAcquireRetry()
+    ) {
+      return {
+        ...resolution,
+        remainingAttempts: 0,
+        unrecoverable: true,
+        error: new RetryBudgetExhaustedError(args.error),
+      };
+    }
+    return resolution;
+  };
+  errorResolver.beforeAttempt = args => {
+    if (args.attempt === 0) {
+      retryBudget.recordRequest();
+    }
+    resolver.beforeAttempt?.(args);
+  };
+  errorResolver.afterAttempt = args => resolver.afterAttempt?.(args);
+  return errorResolver;
+};
@@ -1,4 +1,22 @@
 import { CanHandleErrorFunction, ErrorFilter } from './filter/base';
+import {
+  ResultFilter,
+  ShouldRetryResultFunction,
+  toResultFilter,
+} from './filter/result-filter';
+import {
+  AttemptTimeoutError,
+  RejectedResultError,
+  RetryAbortedError,
+  RetryExhaustedError,
+  RetryFailureReason,
+  RetryTimeoutError,
+} from './errors';
+import type { RetryPolicy } from './policy';
+import { hedge, HedgeOptions } from './hedge';
+import type { Bulkhead } from './bulkhead';
+import { Clock, systemClock } from './clock';
+import { defaultRetryPolicyRegistry, RetryPolicyRegistry } from './registry';
 
 /**
  * The result of an error resolver.
@@ -6,11 +24,15 @@ import { CanHandleErrorFunction, ErrorFilter } from './filter/base';
  * @property remainingAttempts - The number of attempts remaining, can be adapted on the go. If it hits 0, the next resolver will be tried or the operation will fail.
  * @property unrecoverable - Whether the error is unrecoverable. If true, the operation will fail, no more resolvers will be tried.
  * @property context - Additional context for the next called resolver (will be this resolver if remainingAttempts is >0)
+ * @property error - Optional error reported instead of the original one if the operation fails, e.g. to explain why it became unrecoverable.
+ * @property delayMs - Optional delay in milliseconds to wait before the next attempt.
  */
 export interface ErrorResolution<C extends RetryContext<X>, X> {
   remainingAttempts: number;
   unrecoverable: boolean;
   context: C;
+  error?: unknown;
+  delayMs?: number;
 }
 
 /**
@@ -34,6 +56,32 @@ export interface ErrorResolverBase<C extends RetryContext<X>, X> {
     retryContext: C;
     abortSignal?: AbortSignal;
   }): Promise<ErrorResolution<C, X>>;
+  /**
+   * Optional hook called before every attempt, regardless of which resolver is currently handling errors.
+   * Throwing an error fails the operation with that error, without running the attempt.
+   *
+   * @param attempt - The number of attempts made so far.
+   */
+  beforeAttempt?: ({ attempt }: { attempt: number }) => void;
+  /**
+   * Optional hook called after every attempt, regardless of which resolver is currently handling errors.
+   *
+   * @param attempt - The number of attempts made before this one.
+   * @param success - Whether the attempt succeeded.
+   * @param error - The error thrown by the attempt.
+   * @param retryContext - The context the attempt was made with.
+   */
+  afterAttempt?: ({
+    attempt,
+    success,
+    error,
+    retryContext,
+  }: {
+    attempt: number;
+    success: boolean;
+    error?: unknown;
+    retryContext: C;
+  }) => void;
 }
 
 /**
@@ -58,6 +106,48 @@ export interface RetryContext<C> {
   data?: C;
 }
 
+/**
+ * The event passed to the lifecycle hooks.
+ *
+ * @param attempt - The number of the attempt, starting at 1.
+ * @param error - The error of the attempt, if any.
+ * @param elapsedMs - The time elapsed since the operation was started, in milliseconds.
+ * @param retryContext - The current retry context.
+ */
+export interface RetryEvent<X> {
+  attempt: number;
+  error?: unknown;
+  elapsedMs: number;
+  retryContext: RetryContext<X>;
+}
+
+/**
+ * Lifecycle hooks of the retry operation, e.g. for logging and metrics.
+ * Errors thrown by a hook are ignored, they do not change the result of the operation.
+ * Once the operation ended, e.g. on the overall timeout, an attempt still running calls no more hooks.
+ *
+ * @param onAttemptStart - Called before every attempt.
+ * @param onAttemptError - Called when an attempt failed.
+ * @param onRetryScheduled - Called when another attempt will be made, before waiting for the delay chosen by the resolver.
+ * @param onResolverExhausted - Called when a resolver has no attempts left or could not handle the error.
+ * @param onSuccess - Called once when the operation succeeded.
+ * @param onGiveUp - Called once when the operation failed for good, with the reason it failed.
+ */
+export interface RetryHooks<T, X> {
+  onAttemptStart?: (event: RetryEvent<X>) => void;
+  onAttemptError?: (event: RetryEvent<X>) => void;
+  onRetryScheduled?: (
+    event: RetryEvent<X> & { delayMs: number; resolverIndex: number }
+  ) => void;
+  onResolverExhausted?: (
+    event: RetryEvent<X> & { resolverIndex: number }
+  ) => void;
+  onSuccess?: (event: RetryEvent<X> & { result: T }) => void;
+  onGiveUp?: (
+    event: RetryEvent<X> & { failureReason: RetryFailureReason }
+  ) => void;
+}
+
 /**
  * Options for the retry operation.
  *
@@ -65,9 +155,19 @@ export interface RetryContext<C> {
  * @param errorResolvers - The error resolvers to use. In the order to resolve the error.
  * @param throwOnUnrecoveredError - Whether to throw an error if the operation failed to recover, instead of returning a result.
  * @param overallTimeout - The overall timeout for the operation. If set and the operation takes longer than this, it will be cancelled, any retries will not be attempted.
+ * @param attemptTimeout - The timeout for a single attempt. If an attempt takes longer than this, only the attempt is aborted and it fails with an AttemptTimeoutError, which is passed to the error resolvers.
  * @param abortSignal - An optional abort signal to cancel the operation if timeouts are used.
+ * @param finallyCallback - Called once the operation finished, successful or not.
+ * @param retryExhaustedError - Whether to throw a RetryExhaustedError with all attempt errors instead of the last error, if throwOnUnrecoveredError is set.
+ * @param shouldRetryResult - Optional filter for results that should be retried as if the operation failed. Such attempts fail with a RejectedResultError, which is passed to the error resolvers.
+ * @param policy - A retry policy, or the name of a policy in the registry, looked up when the operation starts. Provides the error resolvers and timeouts not set explicitly.
+ * @param policyRegistry - The registry to look up policy names in, defaults to defaultRetryPolicyRegistry.
+ * @param hedging - Hedge every attempt: start concurrent attempts if an attempt is slow, the first success wins. See hedge.
+ * @param clock - The source of time and timers, e.g. a VirtualClock in tests. Defaults to the system clock.
+ * @param bulkhead - A (shared) bulkhead every attempt takes a slot from, released while waiting for the next attempt. A rejected attempt fails with a BulkheadRejectedError, which is passed to the error resolvers.
+ * @param fallback - Called once the operation failed for good, unless it was aborted. Its value is returned as a successful result with fromFallback set, e.g. a cached or default value.
  */
-export interface RetryOptions<T, X> {
+export interface RetryOptions<T, X> extends RetryHooks<T, X> {
   operation: (
     retryContext?: RetryContext<X>,
     abortSignal?: AbortSignal
@@ -75,8 +175,51 @@ export interface RetryOptions<T, X> {
   errorResolvers?: Array<ErrorResolverBase<RetryContext<X>, X>>;
   throwOnUnrecoveredError?: boolean;
   overallTimeout?: number;
+  attemptTimeout?: number;
   abortSignal?: AbortSignal;
   finallyCallback?: (() => void) | undefined;
+  retryExhaustedError?: boolean;
+  shouldRetryResult?: ShouldRetryResultFunction<T, X> | ResultFilter<T, X>;
+  policy?: string | RetryPolicy<X>;
+  policyRegistry?: RetryPolicyRegistry;
+  fallback?: (event: FallbackEvent) => Promise<T> | T;
+  hedging?: HedgeOptions;
+  bulkhead?: Bulkhead;
+  clock?: Clock;
+}
+
+/**
+ * The event passed to the fallback.
+ *
+ * @param error - The error the operation failed with.
+ * @param attempts - The history of all attempts made.
+ * @param failureReason - Why the operation failed.
+ */
+export interface FallbackEvent {
+  error: unknown;
+  attempts: RetryAttempt[];
+  failureReason: RetryFailureReason;
+}
+
+/**
+ * A single attempt of the operation.
+ *
+ * @param startTime - The time the attempt started, in milliseconds since epoch.
+ * @param durationMs - The duration of the attempt in milliseconds.
+ * @param error - The error thrown by the attempt, if it failed.
+ * @param resolverIndex - The index of the resolver that handled the error, if any.
+ * @param remainingAttempts - The remaining attempts returned by the resolver.
+ * @param unrecoverable - Whether the resolver marked the error as unrecoverable.
+ * @param delayMs - The delay waited after the attempt, before the next one was made.
+ */
+export interface RetryAttempt {
+  startTime: number;
+  durationMs: number;
+  error?: unknown;
+  resolverIndex?: number;
+  remainingAttempts?: number;
+  unrecoverable?: boolean;
+  delayMs?: number;
 }
 
 /**
@@ -87,6 +230,10 @@ export interface RetryOptions<T, X> {
  * @param error - The error that occurred.
  * @param totalAttempts - The total number of attempts made.
  * @param totalDurationMs - The total duration of the operation in milliseconds.
+ * @param attempts - The history of all attempts made, in order.
+ * @param failureReason - Why the operation failed: resolvers exhausted, unrecoverable error, timeout or aborted.
+ * @param rejectedResult - The result of the last attempt, if it was rejected by shouldRetryResult.
+ * @param fromFallback - Whether the result was provided by the fallback. error and failureReason then describe why the operation failed.
  */
 export interface RetryResult<T> {
   success: boolean;
@@ -95,25 +242,141 @@ export interface RetryResult<T> {
   totalAttemptsToSucceed?: number;
   totalAttempts?: number;
   totalDurationMs: number;
+  attempts: RetryAttempt[];
+  failureReason?: RetryFailureReason;
+  rejectedResult?: T;
+  fromFallback?: boolean;
 }
 
-async function handleRetry<T, X>(
-  operation: (
-    retryContext: RetryContext<X>,
-    signal?: AbortSignal
-  ) => Promise<T> | T,
-  errorResolvers: Array<ErrorResolverBase<RetryContext<X>, X>>,
-  abortSignal: AbortSignal
-): Promise<{
+/**
+ * State shared between advancedRetry and handleRetry, so it is available even if the operation timed out.
+ * Once settled, advancedRetry has ended, an attempt still running no longer calls hooks or changes the state.
+ */
+interface RetryState<X> {
+  clock: Clock;
+  startTime: number;
+  totalAttempts: number;
+  retryContext: RetryContext<X>;
+  error?: unknown;
+  attempts: RetryAttempt[];
+  settled: boolean;
+}
+
+interface HandleRetryResult<T> {
   result?: T;
   totalAttempts: number;
   error?: Error;
   success: boolean;
-}> {
+  reason?: RetryFailureReason;
+}
+
+function toAttempts<X>(state: RetryState<X>): RetryAttempt[] {
+  // Copy, so the result does not share the attempts with the state
+  const now = state.clock.now();
+  return state.attempts.map(a =>
+    a.durationMs < 0 ? { ...a, durationMs: now - a.startTime } : { ...a }
+  );
+}
+
+function toRejectedResult<T, X>(state: RetryState<X>): T | undefined {
+  const error = state.attempts[state.attempts.length - 1]?.error;
+  return error instanceof RejectedResultError ? (error.result as T) : undefined;
+}
+
+/**
+ * Calls a lifecycle hook. Errors thrown by the hook are ignored, so logging and metrics cannot change the result of the operation.
+ */
+function callHook<E>(hook: ((event: E) => void) | undefined, event: E): void {
+  try {
+    hook?.(event);
+  } catch {
+    // Ignored
+  }
+}
+
+function toRetryEvent<X>(state: RetryState<X>): RetryEvent<X> {
+  return {
+    attempt: state.totalAttempts,
+    error: state.error,
+    elapsedMs: state.clock.now() - state.startTime,
+    retryContext: state.retryContext,
+  };
+}
+
+/**
+ * Runs a single attempt. With an attempt timeout, the attempt gets its own abort signal,
+ * which is aborted with an AttemptTimeoutError once the timeout is reached.
+ */
+async function runAttempt<T, X>({
+  operation,
+  retryContext,
+  abortSignal,
+  attemptTimeout,
+  clock,
+}: {
+  operation: (
+    retryContext: RetryContext<X>,
+    signal?: AbortSignal
+  ) => Promise<T> | T;
+  retryContext: RetryContext<X>;
+  abortSignal: AbortSignal;
+  attemptTimeout?: number;
+  clock: Clock;
+}): Promise<T> {
+  if (!attemptTimeout) {
+    return operation(retryContext, abortSignal);
+  }
+
+  const attemptController = new AbortController();
+  const abortListener = () => {
+    attemptController.abort(abortSignal.reason);
+  };
+  abortSignal.addEventListener('abort', abortListener);
+  let timeoutId: unknown;
+  try {
+    return await Promise.race([
+      operation(retryContext, attemptController.signal),
+      new Promise<never>((_, reject) => {
+        timeoutId = clock.setTimeout(() => {
+          const timeoutError = new AttemptTimeoutError(attemptTimeout);
+          attemptController.abort(timeoutError);
+          reject(timeoutError);
+        }, attemptTimeout);
+      }),
+    ]);
+  } finally {
+    clock.clearTimeout(timeoutId);
+    abortSignal.removeEventListener('abort', abortListener);
+  }
+}
+
+async function handleRetry<T, X>({
+  operation,
+  errorResolvers,
+  abortSignal,
+  attemptTimeout,
+  shouldRetryResult,
+  bulkhead,
+  hooks,
+  state,
+}: {
+  operation: (
+    retryContext: RetryContext<X>,
+    signal?: AbortSignal
+  ) => Promise<T> | T;
+  errorResolvers: Array<ErrorResolverBase<RetryContext<X>, X>>;
+  abortSignal: AbortSignal;
+  attemptTimeout?: number;
+  shouldRetryResult?: ShouldRetryResultFunction<T, X> | ResultFilter<T, X>;
+  bulkhead?: Bulkhead;
+  hooks: RetryHooks<T, X>;
+  state: RetryState<X>;
+}): Promise<HandleRetryResult<T>> {
   let resolverIndex = 0;
   let totalAttempts = 0;
 
   do {
+    const currentResolverIndex = resolverIndex;
     const currentResolver =
       resolverIndex < errorResolvers.length
         ? errorResolvers[resolverIndex]
@@ -125,20 +388,92 @@ async function handleRetry<T, X>(
     let context: RetryContext<X> = { data: undefined };
     do {
       if (abortSignal.aborted) {
-        throw new Error('Operation aborted');
+        throw new RetryAbortedError(abortSignal.reason);
       }
 
       try {
-        totalAttempts++;
-        const result = await operation(context, abortSignal);
+        errorResolvers.forEach(r =>
+          r.beforeAttempt?.({ attempt: totalAttempts })
+        );
+      } catch (error: unknown) {
+        state.error = error;
+        return {
+          result: undefined,
+          totalAttempts,
+          error: error as Error,
+          success: false,
+          reason: 'unrecoverable',
+        };
+      }
+
+      const attemptRecord: RetryAttempt = {
+        startTime: state.clock.now(),
+        durationMs: -1,
+      };
+      totalAttempts++;
+      state.totalAttempts = totalAttempts;
+      state.retryContext = context;
+      state.error = undefined;
+      state.attempts.push(attemptRecord);
+      callHook(hooks.onAttemptStart, toRetryEvent(state));
+      try {
+        const attempt = () =>
+          runAttempt({
+            operation,
+            retryContext: context,
+            abortSignal,
+            attemptTimeout,
+            clock: state.clock,
+          });
+        // The slot is only held while the attempt runs, not while waiting for the next one
+        const result = bulkhead
+          ? await bulkhead.execute(attempt, abortSignal)
+          : await attempt();
+        if (state.settled) {
+          throw new RetryAbortedError(abortSignal.reason);
+        }
+        if (
+          shouldRetryResult &&
+          toResultFilter(shouldRetryResult).shouldRetryResult(
+            result,
+            totalAttempts - 1,
+            context
+          )
+        ) {
+          throw new RejectedResultError(result);
+        }
+        attemptRecord.durationMs = state.clock.now() - attemptRecord.startTime;
+        errorResolvers.forEach(r =>
+          r.afterAttempt?.({
+            attempt: totalAttempts - 1,
+            success: true,
+            retryContext: context,
+          })
+        );
         return {
           result,
           totalAttempts,
           success: true,
         };
       } catch (error: unknown) {
+        // The call already ended, e.g. on the overall timeout
+        if (state.settled) {
+          throw error;
+        }
+        attemptRecord.durationMs = state.clock.now() - attemptRecord.startTime;
+        attemptRecord.error = error;
+        state.error = error;
+        errorResolvers.forEach(r =>
+          r.afterAttempt?.({
+            attempt: totalAttempts - 1,
+            success: false,
+            error,
+            retryContext: context,
+          })
+        );
+        callHook(hooks.onAttemptError, toRetryEvent(state));
         if (abortSignal.aborted) {
-          throw new Error('Operation aborted');
+          throw new RetryAbortedError(abortSignal.reason);
         }
         /* istanbul ignore next */
         if (
@@ -150,6 +485,7 @@ async function handleRetry<T, X>(
             totalAttempts,
             error: error as Error,
             success: false,
+            reason: 'exhausted',
           };
         }
 
@@ -160,17 +496,32 @@ async function handleRetry<T, X>(
           retryContext: context,
           abortSignal,
         });
+        if (state.settled) {
+          throw error;
+        }
         context = resolution.context;
+        state.retryContext = context;
+        attemptRecord.resolverIndex = currentResolverIndex;
+        attemptRecord.remainingAttempts = resolution.remainingAttempts;
+        attemptRecord.unrecoverable = resolution.unrecoverable;
         if (resolution.unrecoverable) {
+          state.error = resolution.error ?? error;
           return {
             result: undefined,
             totalAttempts,
-            error: error as Error,
+            error: (resolution.error ?? error) as Error,
             success: false,
+            reason: 'unrecoverable',
           };
         }
         remainingAttempts = resolution.remainingAttempts;
         resolverRetries++;
+        if (remainingAttempts <= 0) {
+          callHook(hooks.onResolverExhausted, {
+            ...toRetryEvent(state),
+            resolverIndex: currentResolverIndex,
+          });
+        }
         if (
           remainingAttempts <= 0 &&
           resolverIndex >= errorResolvers.length - 1
@@ -180,8 +531,18 @@ async function handleRetry<T, X>(
             totalAttempts,
             error: error as Error,
             success: false,
+            reason: 'exhausted',
           };
         }
+        callHook(hooks.onRetryScheduled, {
+          ...toRetryEvent(state),
+          delayMs: resolution.delayMs ?? 0,
+          resolverIndex: currentResolverIndex,
+        });
+        if (resolution.delayMs !== undefined) {
+          attemptRecord.delayMs = resolution.delayMs;
+          await state.clock.sleep(resolution.delayMs, abortSignal);
+        }
       }
     } while (remainingAttempts > 0);
   } while (resolverIndex < errorResolvers.length);
@@ -199,12 +560,12 @@ export function abortSignalAny(abortSignals: (AbortSignal | undefined)[]): {
   abortSignals.forEach(s => {
     if (s != undefined) {
       const abortListener = () => {
-        abortController.abort();
+        abortController.abort(s.reason);
       };
       abortListeners.push(abortListener);
       s.addEventListener('abort', abortListener);
       if (s.aborted) {
-        abortController.abort();
+        abortController.abort(s.reason);
       }
     }
   });
@@ -217,20 +578,55 @@ export function abortSignalAny(abortSignals: (AbortSignal | undefined)[]): {
  * @param operation - The operation to retry.
  * @param errorResolvers - The resolvers to use to try and recover
  * @param throwOnUnrecoveredError - Whether to throw an error if the operation failed to recover, instead of returning a result.
+ * @param retryExhaustedError - Whether to throw a RetryExhaustedError instead of the last error, if throwOnUnrecoveredError is set.
+ * @param policy - A retry policy or the name of a registered one, providing the error resolvers and timeouts not set explicitly.
  * @returns The result of the operation
+ * @throws UnknownPolicyError if no policy is registered under the name, regardless of throwOnUnrecoveredError.
  */
 export async function advancedRetry<T, X>({
   operation: operation,
-  errorResolvers = [],
+  errorResolvers: explicitErrorResolvers = undefined,
   throwOnUnrecoveredError = false,
-  overallTimeout = undefined,
+  overallTimeout: explicitOverallTimeout = undefined,
+  attemptTimeout: explicitAttemptTimeout = undefined,
   finallyCallback = undefined,
   abortSignal: externalAbortSignal = undefined,
+  retryExhaustedError = false,
+  shouldRetryResult = undefined,
+  policy = undefined,
+  policyRegistry = defaultRetryPolicyRegistry,
+  fallback = undefined,
+  hedging = undefined,
+  bulkhead = undefined,
+  clock = systemClock,
+  ...hooks
 }: RetryOptions<T, X>): Promise<RetryResult<T>> {
-  const startTime = Date.now();
+  let policyOptions: Omit<RetryOptions<T, X>, 'operation'> | undefined;
+  try {
+    // Resolved once, a policy replaced in the registry only affects subsequent calls
+    policyOptions = (
+      typeof policy === 'string' ? policyRegistry.get(policy) : policy
+    )?.toOptions<T>();
+  } catch (error) {
+    // An unknown name is a mistake in the call, neither the hooks nor the fallback are called
+    finallyCallback?.();
+    throw error;
+  }
+  const startTime = clock.now();
+  let failureReason: RetryFailureReason | undefined;
+  // Only known if the resolvers gave up, not on timeouts and aborts
+  let totalAttempts: number | undefined;
+  const state: RetryState<X> = {
+    clock,
+    startTime,
+    totalAttempts: 0,
+    retryContext: { data: undefined },
+    attempts: [],
+    settled: false,
+  };
   const timeoutController = new AbortController();
   let timeoutAbortListener: ((e: Event) => void) | undefined;
-  let timeoutId: NodeJS.Timeout | undefined;
+  let timeoutId: unknown;
 
   const { signal, abortListeners } = abortSignalAny([
     timeoutController.signal,
@@ -239,6 +635,7 @@ export async function advancedRetry<T, X>({
 
   // Create a cleanup function
   const cleanup = () => {
+    state.settled = true;
     if (timeoutAbortListener) {
       signal.removeEventListener('abort', timeoutAbortListener);
       timeoutController.signal.removeEventListener(
@@ -247,9 +644,12 @@ export async function advancedRetry<T, X>({
       );
     }
     if (timeoutId) {
-      clearTimeout(timeoutId);
+      clock.clearTimeout(timeoutId);
     }
-    abortListeners.forEach(l => signal.removeEventListener('abort', l));
+    abortListeners.forEach(l => {
+      timeoutController.signal.removeEventListener('abort', l);
+      externalAbortSignal?.removeEventListener('abort', l);
+    });
     // Ensure timeout controller is aborted
     if (!timeoutController.signal.aborted) {
       timeoutController.abort();
@@ -257,71 +657,127 @@ export async function advancedRetry<T, X>({
   };
 
   try {
-    const result: {
-      result?: T;
-      totalAttempts: number;
-      error?: Error;
-      success: boolean;
-    } = await new Promise((resolve, reject) => {
-      if (overallTimeout) {
-        timeoutId = setTimeout(() => {
-          timeoutController.abort();
-          reject(new Error('Operation timed out'));
-        }, overallTimeout);
-
-        timeoutAbortListener = () => {
-          if (timeoutId) {
-            clearTimeout(timeoutId);
-            timeoutId = undefined;
-          }
-        };
-        signal.addEventListener('abort', timeoutAbortListener);
-      }
+    const errorResolvers =
+      explicitErrorResolvers ?? policyOptions?.errorResolvers ?? [];
+    const overallTimeout =
+      explicitOverallTimeout ?? policyOptions?.overallTimeout;
+    const attemptTimeout =
+      explicitAttemptTimeout ?? policyOptions?.attemptTimeout;
+
+    const result: HandleRetryResult<T> = await new Promise(
+      (resolve, reject) => {
+        if (overallTimeout) {
+          timeoutId = clock.setTimeout(() => {
+            const timeoutError = new RetryTimeoutError(overallTimeout);
+            failureReason = 'timeout';
+            timeoutController.abort(timeoutError);
+            reject(timeoutError);
+          }, overallTimeout);
 
-      handleRetry<T, X>(operation, errorResolvers, signal)
-        .then(v => {
-          resolve(v);
+          timeoutAbortListener = () => {
+            if (timeoutId) {
+              clock.clearTimeout(timeoutId);
+              timeoutId = undefined;
+            }
+          };
+          signal.addEventListener('abort', timeoutAbortListener);
+        }
+
+        handleRetry<T, X>({
+          operation: hedging ? hedge(operation, hedging, clock) : operation,
+          errorResolvers,
+          abortSignal: signal,
+          attemptTimeout,
+          shouldRetryResult,
+          bulkhead,
+          hooks,
+          state,
         })
-        .catch(e => {
-          reject(e);
-        });
-    });
+          .then(v => {
+            resolve(v);
+          })
+          .catch(e => {
+            reject(e);
+          });
+      }
+    );
 
     cleanup(); // Call cleanup before processing result
 
     if (result.success == false) {
-      if (throwOnUnrecoveredError) {
-        throw result.error;
-      }
-      return {
-        success: false,
-        error: result.error,
-        totalAttemptsToSucceed: undefined,
-        totalAttempts: result.totalAttempts,
-        totalDurationMs: Date.now() - startTime,
-      };
+      failureReason = result.reason;
+      totalAttempts = result.totalAttempts;
+      throw result.error;
     }
 
+    callHook(hooks.onSuccess, {
+      ...toRetryEvent(state),
+      result: result.result as T,
+    });
     return {
       success: true,
       result: result.result,
       totalAttemptsToSucceed: result.totalAttempts,
       totalAttempts: result.totalAttempts,
-      totalDurationMs: Date.now() - startTime,
+      totalDurationMs: clock.now() - startTime,
+      attempts: toAttempts(state),
     };
   } catch (error) {
+    // Cleanup aborts the signal, so check first
+    failureReason ??= signal.aborted ? 'aborted' : 'unrecoverable';
     cleanup(); // Call cleanup before handling error
+    state.error = error;
+    callHook(hooks.onGiveUp, { ...toRetryEvent(state), failureReason });
+
+    // If the fallback fails as well, its error is reported instead
+    let finalError = error;
+    if (fallback && failureReason !== 'aborted') {
+      try {
+        const result = await fallback({
+          error,
+          attempts: toAttempts(state),
+          failureReason,
+        });
+        return {
+          success: true,
+          result,
+          fromFallback: true,
+          error: error as Error,
+          totalAttemptsToSucceed: undefined,
+          totalAttempts,
+          totalDurationMs: clock.now() - startTime,
+          attempts: toAttempts(state),
+          failureReason,
+          rejectedResult: toRejectedResult<T, X>(state),
+        };
+      } catch (fallbackError) {
+        finalError = fallbackError;
+      }
+    }
 
     if (throwOnUnrecoveredError) {
-      throw error;
+      throw retryExhaustedError
+        ? new RetryExhaustedError({
+            errors: state.attempts
+              .filter(a => a.error !== undefined)
+              .map(a => a.error),
+            cause: finalError,
+            totalAttempts: state.totalAttempts,
+            totalDurationMs: clock.now() - startTime,
+            reason: failureReason,
+          })
+        : finalError;
     }
 
     return {
       success: false,
-      error: error as Error,
+      error: finalError as Error,
       totalAttemptsToSucceed: undefined,
-      totalAttempts: undefined,
-      totalDurationMs: Date.now() - startTime,
+      totalAttempts,
+      totalDurationMs: clock.now() - startTime,
+      attempts: toAttempts(state),
+      failureReason,
+      rejectedResult: toRejectedResult<T, X>(state),
     };
   } finally {
     cleanup(); // Ensure cleanup runs in all cases
@@ -330,34 +786,109 @@ export async function advancedRetry<T, X>({
 }
 
 /**
- * Executes an operation with retry logic.
+ * Options for running several operations with retry logic.
  *
- * @param operations - The operations to retry. All operations will be executed in parallel, if any of the operations fail, the operation will be retried. The other operations will continue to run.
- * @param errorResolvers - The resolvers to use to try and recover
- * @param overallTimeout - The overall timeout for the operation. If set and the operation takes longer than this, it will be cancelled, any retries will not be attempted.
- * @param abortSignal - An optional abort signal to cancel the operations if timeouts are used.
- * @returns The result of the operations
+ * @param errorResolvers - The resolvers to use to try and recover, applied to each operation independently.
+ * @param overallTimeout - The overall timeout of each operation. If set and an operation takes longer than this, it will be cancelled, any retries will not be attempted.
+ * @param abortSignal - An optional abort signal to cancel all operations.
+ * @param concurrency - The maximum number of operations running at the same time, including their retries. An integer of at least 1, defaults to all at once.
+ * @param failFast - Whether to abort the other operations once an operation failed for good. Operations not started yet are not called, they fail as aborted.
+ * Once aborted, by failFast or the abort signal, no more operations are taken from iterables other than arrays.
+ * @param clock - The source of time and timers of every operation. Defaults to the system clock.
  */
-export async function advancedRetryAll<T extends unknown[], X>({
+export interface RetryAllOptions<X> {
+  errorResolvers?: Array<ErrorResolverBase<RetryContext<X>, X>>;
+  overallTimeout?: number;
+  abortSignal?: AbortSignal;
+  concurrency?: number;
+  failFast?: boolean;
+  clock?: Clock;
+}
+
+/**
+ * Executes operations with retry logic.
+ *
+ * @param operations - The operations to retry, an array, iterable or async iterable. Operations are started in order, up to concurrency at the same time. If an operation fails, it will be retried, the other operations will continue to run unless failFast is set.
+ * @returns The results of the operations, in the order of the operations
+ * @throws RangeError if concurrency is not an integer of at least 1.
+ */
+export function advancedRetryAll<T extends unknown[], X>(
+  options: RetryAllOptions<X> & {
+    operations: { [K in keyof T]: RetryOptions<T[K], X>['operation'] };
+  }
+): Promise<{ [K in keyof T]: RetryResult<T[K]> }>;
+export function advancedRetryAll<T, X>(
+  options: RetryAllOptions<X> & {
+    operations:
+      | Iterable<RetryOptions<T, X>['operation']>
+      | AsyncIterable<RetryOptions<T, X>['operation']>;
+  }
+): Promise<RetryResult<T>[]>;
+export async function advancedRetryAll<T, X>({
   operations,
   errorResolvers = [],
   overallTimeout = undefined,
   abortSignal = undefined,
-}: {
-  operations: { [K in keyof T]: () => Promise<T[K]> };
-  errorResolvers?: Array<ErrorResolverBase<RetryContext<X>, X>>;
-  overallTimeout?: number;
-  abortSignal?: AbortSignal;
-}): Promise<{ [K in keyof T]: RetryResult<T[K]> }> {
-  return Promise.all(
-    operations.map(operation =>
-      advancedRetry({
+  concurrency = Infinity,
+  failFast = false,
+  clock = undefined,
+}: RetryAllOptions<X> & {
+  operations:
+    | Iterable<RetryOptions<T, X>['operation']>
+    | AsyncIterable<RetryOptions<T, X>['operation']>;
+}): Promise<RetryResult<T>[]> {
+  if (
+    !(Number.isInteger(concurrency) || concurrency === Infinity) ||
+    concurrency < 1
+  ) {
+    throw new RangeError(
+      `concurrency must be an integer of at least 1, got ${concurrency}`
+    );
+  }
+  const failFastController = new AbortController();
+  const { signal, abortListeners } = abortSignalAny([
+    failFastController.signal,
+    abortSignal,
+  ]);
+  const results: Promise<RetryResult<T>>[] = [];
+  const running = new Set<Promise<unknown>>();
+
+  try {
+    for await (const operation of operations) {
+      while (running.size >= concurrency) {
+        await Promise.race(running);
+      }
+      const result = advancedRetry<T, X>({
         operation,
         errorResolvers,
         throwOnUnrecoveredError: false,
         overallTimeout,
-        abortSignal,
-      })
-    )
-  ) as Promise<{ [K in keyof T]: RetryResult<T[K]> }>;
+        abortSignal: signal,
+        clock,
+      }).then(r => {
+        if (failFast && !r.success && r.failureReason !== 'aborted') {
+          // The other operations fail with a RetryAbortedError caused by this error
+          failFastController.abort(r.error);
+        }
+        return r;
+      });
+      const slot = result.finally(() => running.delete(slot));
+      running.add(slot);
+      results.push(result);
+      if (signal.aborted && !Array.isArray(operations)) {
+        // Stop taking operations, an iterable might never end
+        break;
+      }
+    }
+    return await Promise.all(results);
+  } catch (error: unknown) {
+    // The operations iterable failed, the operations still running are not needed anymore
+    failFastController.abort(error);
+    throw error;
+  } finally {
+    abortListeners.forEach(l => {
+      failFastController.signal.removeEventListener('abort', l);
+      abortSignal?.removeEventListener('abort', l);
+    });
+  }
 }
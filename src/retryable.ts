@@ -0,0 +1,38 @@
+import { advancedRetry, RetryOptions } from './retry';
+
+/**
+ * Options of a retryable function, all options of advancedRetry except the operation.
+ * The wrapped function always throws if the operation failed to recover.
+ */
+export type RetryableOptions<T, X> = Omit<
+  RetryOptions<T, X>,
+  'operation' | 'throwOnUnrecoveredError'
+>;
+
+/**
+ * Wraps a function so every call is retried with the same options.
+ * The wrapped function takes the same arguments and is called with the same `this`, e.g. to wrap a method of an SDK client once.
+ *
+ * @param fn - The function to wrap.
+ * @param options - The retry options shared by all calls, e.g. the error resolvers.
+ * @returns A function resolving with the result of fn, or rejecting with the error if it failed to recover.
+ */
+export function retryable<F extends (...args: any[]) => unknown, X = unknown>(
+  fn: F,
+  options: RetryableOptions<Awaited<ReturnType<F>>, X> = {}
+): (
+  this: ThisParameterType<F>,
+  ...args: Parameters<F>
+) => Promise<Awaited<ReturnType<F>>> {
+  return async function (
+    this: ThisParameterType<F>,
+    ...args: Parameters<F>
+  ): Promise<Awaited<ReturnType<F>>> {
+    const result = await advancedRetry<Awaited<ReturnType<F>>, X>({
+      ...options,
+      operation: () => fn.apply(this, args) as Awaited<ReturnType<F>>,
+      throwOnUnrecoveredError: true,
+    });
+    return result.result as Awaited<ReturnType<F>>;
+  };
+}
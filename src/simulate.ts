@@ -0,0 +1,171 @@
+import { advancedRetry, ErrorResolverBase, RetryContext } from './retry';
+import { RetryFailureReason } from './errors';
+import { Clock, systemClock } from './clock';
+import { RetryPolicy } from './policy';
+import { errorToString } from './filter/keyword-filter';
+
+/**
+ * The decision of the resolver chain about one failed attempt.
+ * Every attempt is decided by the current resolver, starting with the first one.
+ * Once it returns remainingAttempts of 0 or less, e.g. -1 for an error it cannot handle, the next resolver takes over from the next attempt.
+ *
+ * @param attempt - The number of the attempt, starting at 1.
+ * @param error - The error of the attempt, taken from the error sequence.
+ * @param resolverIndex - The resolver that decided, if any.
+ * @param decision - retry: the resolver retries, passOn: the resolver gave up and the next one takes over from the next attempt,
+ * unrecoverable: the resolver stopped the chain, exhausted: the chain gave up.
+ * @param delayMs - The delay before the next attempt.
+ * @param remainingAttempts - The remaining attempts returned by the resolver.
+ * @param elapsedMs - The simulated time when the attempt started, the sum of the previous delays.
+ */
+export interface SimulatedDecision {
+  attempt: number;
+  error: unknown;
+  resolverIndex?: number;
+  decision: 'retry' | 'passOn' | 'unrecoverable' | 'exhausted';
+  delayMs?: number;
+  remainingAttempts?: number;
+  elapsedMs: number;
+}
+
+/**
+ * The result of a simulation.
+ *
+ * @param decisions - The decisions about every failed attempt, in order.
+ * @param success - Whether an attempt succeeded, once the error sequence was used up.
+ * @param totalAttempts - The number of attempts made.
+ * @param totalDelayMs - The time spent waiting between the attempts.
+ * @param failureReason - Why the chain gave up, if it did.
+ * @param error - The error the operation would fail with, if it did.
+ */
+export interface PolicySimulation {
+  decisions: SimulatedDecision[];
+  success: boolean;
+  totalAttempts: number;
+  totalDelayMs: number;
+  failureReason?: RetryFailureReason;
+  error?: unknown;
+}
+
+// Time moves by the delays right away, the simulation never sleeps. It sets no timeouts, so no timers are needed
+function simulationClock(): Clock {
+  let now = 0;
+  return {
+    ...systemClock,
+    now: () => now,
+    sleep: async ms => {
+      now += Math.max(ms, 0);
+    },
+  };
+}
+
+/**
+ * Simulates how the error resolvers handle a sequence of errors, without waiting for any delay.
+ * Attempt n fails with errorSequence[n - 1], the attempt after the last error succeeds.
+ * The resolvers are really called, use fresh instances of stateful resolvers, e.g. circuit breakers and retry budgets.
+ *
+ * @example
+ * const simulation = await simulatePolicy(errorResolvers, [
+ *   { status: 503 },
+ *   new Error('ECONNRESET'),
+ * ]);
+ * console.log(explainPolicySimulation(simulation));
+ *
+ * @param errorResolvers - The error resolvers or the policy to simulate.
+ * @param errorSequence - The errors of the attempts, in order.
+ * @returns The decisions of the resolver chain.
+ */
+export async function simulatePolicy<X = any>(
+  errorResolvers: Array<ErrorResolverBase<RetryContext<X>, X>> | RetryPolicy<X>,
+  errorSequence: unknown[]
+): Promise<PolicySimulation> {
+  // Attempts after which another attempt was scheduled
+  const scheduled = new Set<number>();
+  let calls = 0;
+  const result = await advancedRetry<undefined, X>({
+    operation: () => {
+      const index = calls++;
+      if (index < errorSequence.length) {
+        throw errorSequence[index];
+      }
+      return undefined;
+    },
+    errorResolvers:
+      errorResolvers instanceof RetryPolicy
+        ? errorResolvers.toResolvers()
+        : errorResolvers,
+    clock: simulationClock(),
+    onRetryScheduled: ({ attempt }) => scheduled.add(attempt),
+  });
+
+  const decisions = result.attempts
+    .slice(0, errorSequence.length)
+    .map((attempt, index): SimulatedDecision => {
+      const decision = attempt.unrecoverable
+        ? 'unrecoverable'
+        : (attempt.remainingAttempts ?? 0) > 0
+          ? 'retry'
+          : scheduled.has(index + 1)
+            ? 'passOn'
+            : 'exhausted';
+      return {
+        attempt: index + 1,
+        error: attempt.error,
+        resolverIndex: attempt.resolverIndex,
+        decision,
+        delayMs: attempt.delayMs,
+        remainingAttempts: attempt.remainingAttempts,
+        elapsedMs: attempt.startTime,
+      };
+    });
+  return {
+    decisions,
+    success: result.success,
+    totalAttempts: result.attempts.length,
+    totalDelayMs: result.attempts.reduce((sum, a) => sum + (a.delayMs ?? 0), 0),
+    failureReason: result.failureReason,
+    error: result.error,
+  };
+}
+
+/**
+ * Describes a simulation in plain text, one line per attempt.
+ *
+ * @param simulation - The result of simulatePolicy.
+ * @returns The explanation, e.g. "attempt 1 failed with HTTP 503: resolver 0 retries after 100ms (2 attempts left)".
+ */
+export function explainPolicySimulation(simulation: PolicySimulation): string {
+  const gaveUp = (d: SimulatedDecision) =>
+    `resolver ${d.resolverIndex} ${(d.remainingAttempts as number) < 0 ? 'cannot handle it' : 'has no attempts left'}`;
+  const lines = simulation.decisions.map(d => {
+    let step: string;
+    if (d.decision === 'retry') {
+      step = `resolver ${d.resolverIndex} retries after ${d.delayMs ?? 0}ms (${d.remainingAttempts} attempts left)`;
+    } else if (d.decision === 'passOn') {
+      step = `${gaveUp(d)}, resolver ${(d.resolverIndex as number) + 1} takes over after ${d.delayMs ?? 0}ms`;
+    } else if (d.decision === 'unrecoverable') {
+      step = `resolver ${d.resolverIndex} gives up, unrecoverable`;
+    } else if (d.resolverIndex === undefined) {
+      step = 'no resolver, giving up';
+    } else {
+      step = `${gaveUp(d)}, giving up`;
+    }
+    return `attempt ${d.attempt} at ${d.elapsedMs}ms failed with ${errorToString(d.error)}: ${step}`;
+  });
+  if (simulation.success) {
+    lines.push(
+      `attempt ${simulation.totalAttempts} at ${simulation.totalDelayMs}ms succeeded`
+    );
+  } else if (
+    simulation.decisions.length === 0 ||
+    ['retry', 'passOn'].includes(
+      simulation.decisions[simulation.decisions.length - 1].decision
+    )
+  ) {
+    // A resolver stopped the next attempt before it was made, e.g. an open circuit
+    lines.push(
+      `attempt ${simulation.totalAttempts + 1} at ${simulation.totalDelayMs}ms was not made: ${errorToString(simulation.error)}`
+    );
+  }
+  return lines.join('\n');
+}
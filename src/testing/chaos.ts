@@ -0,0 +1,135 @@
+import { Clock, systemClock } from '../clock';
+import { RetryOptions } from '../retry';
+import { seededRandom } from '../utils/random';
+
+/**
+ * @description A fault injected instead of calling the operation
+ * - status: fails with an InjectedFaultError with the status code and headers, e.g. 503 or 429 with Retry-After
+ * - keyword: fails with an InjectedFaultError with the message, e.g. ECONNRESET
+ * - hang: never settles, ignoring the abort signal, like a dependency that stopped responding
+ * @property weight - Relative probability of the fault among all faults (defaults to 1)
+ */
+export type ChaosFault = (
+  | { type: 'status'; status: number; headers?: Record<string, string> }
+  | { type: 'keyword'; message: string }
+  | { type: 'hang' }
+) & { weight?: number };
+
+/**
+ * @description Injected latency, a random delay between minMs and maxMs
+ * @property probability - Probability that an attempt is delayed (defaults to 1)
+ */
+export interface ChaosLatency {
+  minMs: number;
+  maxMs: number;
+  probability?: number;
+}
+
+/**
+ * @description Chaos options, plain data so they can come from configuration
+ * @property errorRate - Probability in [0, 1] that an attempt fails with one of the faults
+ * @property latency - Latency added to attempts before they run or fail
+ * @property errors - The faults to inject (defaults to a 503 status)
+ * @property seed - Seed of the random source, the same seed injects the same faults in the same order. Random if not set
+ * @property enabled - Whether to inject anything, to switch chaos off by configuration (defaults to true)
+ */
+export interface ChaosOptions {
+  errorRate: number;
+  latency?: ChaosLatency;
+  errors?: ChaosFault[];
+  seed?: number;
+  enabled?: boolean;
+}
+
+/**
+ * @description Error of an injected fault, the status code is understood by the status code filters
+ */
+export class InjectedFaultError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly headers?: Record<string, string>
+  ) {
+    super(message);
+    this.name = 'InjectedFaultError';
+  }
+}
+
+const DEFAULT_FAULTS: ChaosFault[] = [{ type: 'status', status: 503 }];
+
+function pickFault(faults: ChaosFault[], value: number): ChaosFault {
+  const total = faults.reduce((sum, f) => sum + (f.weight ?? 1), 0);
+  let threshold = value * total;
+  for (const fault of faults) {
+    threshold -= fault.weight ?? 1;
+    if (threshold < 0) {
+      return fault;
+    }
+  }
+  return faults[faults.length - 1];
+}
+
+/**
+ * @description Wraps an operation to inject failures, latency and hangs, e.g. to run retry policies against a degraded dependency in CI or staging
+ * @example
+ * const operation = chaos(fetchData, {
+ *   errorRate: 0.3,
+ *   latency: { minMs: 50, maxMs: 500 },
+ *   errors: [{ type: 'status', status: 503 }, { type: 'keyword', message: 'ECONNRESET' }],
+ *   seed: 42,
+ * });
+ * @param operation - The real operation, called for all attempts without an injected fault
+ * @param options - What to inject
+ * @param clock - The clock to wait for the latency, defaults to the system clock
+ * @returns The operation with chaos
+ */
+export function chaos<T, X = any>(
+  operation: RetryOptions<T, X>['operation'],
+  options: ChaosOptions,
+  clock: Clock = systemClock
+): RetryOptions<T, X>['operation'] {
+  const { errorRate, latency, errors = DEFAULT_FAULTS, seed } = options;
+  if (options.enabled === false) {
+    return operation;
+  }
+  if (!(errorRate >= 0 && errorRate <= 1)) {
+    throw new RangeError(`errorRate must be between 0 and 1, got ${errorRate}`);
+  }
+  if (errors.length === 0) {
+    throw new RangeError('errors must contain at least one fault');
+  }
+  const random = seed !== undefined ? seededRandom(seed) : Math.random;
+
+  return async (retryContext, abortSignal) => {
+    // Every attempt draws the same numbers, so with a seed adding latency doesn't change the faults
+    const latencyDraw = random();
+    const latencyValue = random();
+    const faultDraw = random();
+    const fault = pickFault(errors, random());
+
+    if (latency && latencyDraw < (latency.probability ?? 1)) {
+      await clock.sleep(
+        latency.minMs + latencyValue * (latency.maxMs - latency.minMs),
+        abortSignal
+      );
+      if (abortSignal?.aborted) {
+        throw abortSignal.reason;
+      }
+    }
+    if (faultDraw >= errorRate) {
+      return operation(retryContext, abortSignal);
+    }
+    switch (fault.type) {
+      case 'status':
+        throw new InjectedFaultError(
+          `Injected fault: HTTP ${fault.status}`,
+          fault.status,
+          fault.headers
+        );
+      case 'keyword':
+        throw new InjectedFaultError(fault.message);
+      case 'hang':
+        return new Promise<never>(() => {});
+    }
+  };
+}
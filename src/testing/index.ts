@@ -0,0 +1,4 @@
+export * from './spy';
+export * from './script';
+export * from './matchers';
+export * from './chaos';
@@ -0,0 +1,76 @@
+import { RetryResult } from '../retry';
+
+/**
+ * @description Result of a matcher, as expected by Jest and Vitest
+ */
+export interface RetryMatcherResult {
+  pass: boolean;
+  message: () => string;
+}
+
+/**
+ * @description Type of the retry matchers on expect, to add them to the matchers of Jest or Vitest
+ * @property toHaveRetried - Checks the number of retries, the attempts after the first one
+ * @property toHaveWaited - Checks the delays waited before the retries, in order
+ */
+export interface RetryMatchers<R = unknown> {
+  toHaveRetried(retries: number): R;
+  toHaveWaited(delaysMs: number[]): R;
+}
+
+function isRetryResult(received: unknown): received is RetryResult<unknown> {
+  return (
+    typeof received === 'object' &&
+    received !== null &&
+    Array.isArray((received as RetryResult<unknown>).attempts)
+  );
+}
+
+const notARetryResult = (received: unknown): RetryMatcherResult => ({
+  pass: false,
+  message: () =>
+    `expected a RetryResult with attempts, received ${JSON.stringify(received)}`,
+});
+
+/**
+ * @description Matchers for RetryResults, register them with expect.extend(retryMatchers)
+ * @example
+ * expect.extend(retryMatchers);
+ * const result = await advancedRetry({ operation, errorResolvers });
+ * expect(result).toHaveRetried(2);
+ * expect(result).toHaveWaited([100, 200]);
+ */
+export const retryMatchers = {
+  toHaveRetried(received: unknown, retries: number): RetryMatcherResult {
+    if (!isRetryResult(received)) {
+      return notARetryResult(received);
+    }
+    const actual = Math.max(received.attempts.length - 1, 0);
+    return {
+      pass: actual === retries,
+      message: () =>
+        actual === retries
+          ? `expected the operation not to be retried ${retries} times`
+          : `expected the operation to be retried ${retries} times, but it was retried ${actual} times`,
+    };
+  },
+
+  toHaveWaited(received: unknown, delaysMs: number[]): RetryMatcherResult {
+    if (!isRetryResult(received)) {
+      return notARetryResult(received);
+    }
+    const actual = received.attempts
+      .map(a => a.delayMs)
+      .filter((d): d is number => d !== undefined);
+    const pass =
+      actual.length === delaysMs.length &&
+      actual.every((d, i) => d === delaysMs[i]);
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `expected the operation not to wait [${delaysMs.join(', ')}] ms`
+          : `expected the operation to wait [${delaysMs.join(', ')}] ms, but it waited [${actual.join(', ')}] ms`,
+    };
+  },
+};
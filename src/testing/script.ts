@@ -0,0 +1,101 @@
+import { Clock, systemClock } from '../clock';
+import { OperationSpy, spyOperation } from './spy';
+
+/**
+ * @description A step of a scripted operation, the outcome of one attempt
+ * @property delayMs - Time in milliseconds the attempt takes before its outcome, aborted with the abort signal of the attempt
+ */
+export type ScriptStep<T> = (
+  | { type: 'succeed'; value: T }
+  | { type: 'fail'; error: unknown }
+) & { delayMs?: number };
+
+/**
+ * @description Error of a scripted HTTP failure, readable by the status code, header and Retry-After handling
+ */
+export class ScriptedHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly headers: Record<string, string> = {}
+  ) {
+    super(`HTTP ${status}`);
+    this.name = 'ScriptedHttpError';
+  }
+}
+
+/**
+ * @description Error of a scripted network failure, like the errors of Node.js sockets
+ */
+export class ScriptedNetworkError extends Error {
+  constructor(public readonly code: string) {
+    super(code);
+    this.name = 'ScriptedNetworkError';
+  }
+}
+
+/**
+ * @description The attempt succeeds with the value
+ */
+export const succeed = <T>(value: T, delayMs?: number): ScriptStep<T> => ({
+  type: 'succeed',
+  value,
+  delayMs,
+});
+
+/**
+ * @description The attempt fails with the error
+ */
+export const fail = (error: unknown, delayMs?: number): ScriptStep<never> => ({
+  type: 'fail',
+  error,
+  delayMs,
+});
+
+/**
+ * @description The attempt fails with a ScriptedHttpError, e.g. failWithStatus(429, { 'Retry-After': '2' })
+ */
+export const failWithStatus = (
+  status: number,
+  headers?: Record<string, string>,
+  delayMs?: number
+): ScriptStep<never> => fail(new ScriptedHttpError(status, headers), delayMs);
+
+/**
+ * @description The attempt fails with a ScriptedNetworkError, e.g. failWithCode('ECONNRESET')
+ */
+export const failWithCode = (
+  code: string,
+  delayMs?: number
+): ScriptStep<never> => fail(new ScriptedNetworkError(code), delayMs);
+
+/**
+ * @description Creates an operation playing the steps in order, one per attempt. The last step is repeated once the script is over.
+ * Calls are recorded like with spyOperation.
+ * @example
+ * const operation = scriptedOperation([failWithStatus(503), failWithCode('ECONNRESET'), succeed('ok')]);
+ * @param steps - The outcomes of the attempts
+ * @param clock - The clock to wait for the delays of the steps, defaults to the system clock
+ * @returns The scripted operation
+ */
+export function scriptedOperation<T, X = any>(
+  steps: ScriptStep<T>[],
+  clock: Clock = systemClock
+): OperationSpy<T, X> {
+  if (steps.length === 0) {
+    throw new Error('A scripted operation needs at least one step');
+  }
+  let calls = 0;
+  return spyOperation<T, X>(async (_, abortSignal) => {
+    const step = steps[Math.min(calls++, steps.length - 1)];
+    if (step.delayMs !== undefined) {
+      await clock.sleep(step.delayMs, abortSignal);
+      if (abortSignal?.aborted) {
+        throw abortSignal.reason;
+      }
+    }
+    if (step.type === 'fail') {
+      throw step.error;
+    }
+    return step.value;
+  });
+}
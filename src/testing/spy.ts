@@ -0,0 +1,41 @@
+import { RetryContext, RetryOptions } from '../retry';
+
+/**
+ * @description A call of a spied operation
+ * @property attempt - The number of the attempt, starting at 1
+ * @property retryContext - The retry context the attempt received
+ * @property abortSignal - The abort signal the attempt received
+ */
+export interface OperationCall<X> {
+  attempt: number;
+  retryContext?: RetryContext<X>;
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * @description An operation recording every call, pass it to advancedRetry instead of the operation
+ * @property calls - The calls made so far, in order
+ */
+export interface OperationSpy<T, X> {
+  (retryContext?: RetryContext<X>, abortSignal?: AbortSignal): Promise<T>;
+  readonly calls: OperationCall<X>[];
+}
+
+/**
+ * @description Wraps an operation to record the retry context and abort signal every attempt received
+ * @param operation - The operation to spy on
+ * @returns The spied operation
+ */
+export function spyOperation<T, X = any>(
+  operation: RetryOptions<T, X>['operation']
+): OperationSpy<T, X> {
+  const calls: OperationCall<X>[] = [];
+  const spy = async (
+    retryContext?: RetryContext<X>,
+    abortSignal?: AbortSignal
+  ) => {
+    calls.push({ attempt: calls.length + 1, retryContext, abortSignal });
+    return operation(retryContext, abortSignal);
+  };
+  return Object.assign(spy, { calls });
+}
@@ -0,0 +1,17 @@
+export async function sleep(ms: number, abortSignal?: AbortSignal) {
+  return new Promise(resolve => {
+    if (abortSignal?.aborted) {
+      return resolve(undefined);
+    }
+    if (ms < 0) ms = 0;
+    const abortListener = () => {
+      clearTimeout(timeout);
+      resolve(undefined);
+    };
+    const timeout = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', abortListener);
+      resolve(undefined);
+    }, ms);
+    abortSignal?.addEventListener('abort', abortListener);
+  });
+}
@@ -0,0 +1,233 @@
+import {
+  advancedRetry,
+  BulkheadRejectedError,
+  createBulkhead,
+  createKeyedBulkhead,
+  delayErrorResolver,
+} from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('createBulkhead', () => {
+  it('should allow up to maxConcurrent slots', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 2 });
+    const first = await bulkhead.acquire();
+    await bulkhead.acquire();
+    expect(bulkhead.running).toBe(2);
+
+    await expect(bulkhead.acquire()).rejects.toThrow(BulkheadRejectedError);
+
+    first();
+    expect(bulkhead.running).toBe(1);
+    await bulkhead.acquire();
+    expect(bulkhead.running).toBe(2);
+  });
+
+  it('should release a slot only once', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 2 });
+    const release = await bulkhead.acquire();
+    await bulkhead.acquire();
+    release();
+    release();
+    expect(bulkhead.running).toBe(1);
+  });
+
+  it('should queue attempts in order and hand over released slots', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 2 });
+    const release = await bulkhead.acquire();
+    const order: number[] = [];
+    const second = bulkhead.acquire().then(r => {
+      order.push(2);
+      return r;
+    });
+    const third = bulkhead.acquire().then(r => {
+      order.push(3);
+      return r;
+    });
+    expect(bulkhead.queued).toBe(2);
+
+    const rejected = await bulkhead.acquire().catch(e => e);
+    expect(rejected).toBeInstanceOf(BulkheadRejectedError);
+    expect(rejected.reason).toBe('queueFull');
+    expect(rejected.message).toBe('Bulkhead is full');
+
+    release();
+    (await second)();
+    (await third)();
+    expect(order).toEqual([2, 3]);
+    expect(bulkhead.running).toBe(0);
+    expect(bulkhead.queued).toBe(0);
+  });
+
+  it('should reject attempts waiting longer than queueTimeoutMs', async () => {
+    const bulkhead = createBulkhead({
+      maxConcurrent: 1,
+      maxQueue: 1,
+      queueTimeoutMs: 10,
+    });
+    const release = await bulkhead.acquire();
+
+    const rejected = await bulkhead.acquire().catch(e => e);
+    expect(rejected).toBeInstanceOf(BulkheadRejectedError);
+    expect(rejected.reason).toBe('queueTimeout');
+    expect(rejected.message).toBe('Bulkhead queue timeout exceeded');
+    expect(bulkhead.queued).toBe(0);
+
+    release();
+    expect(bulkhead.running).toBe(0);
+  });
+
+  it('should not time out once a slot was acquired', async () => {
+    const bulkhead = createBulkhead({
+      maxConcurrent: 1,
+      maxQueue: 1,
+      queueTimeoutMs: 20,
+    });
+    const release = await bulkhead.acquire();
+    const waiting = bulkhead.acquire();
+    release();
+    await waiting;
+    await delay(30);
+    expect(bulkhead.running).toBe(1);
+  });
+
+  it('should stop waiting with the abort reason', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    await bulkhead.acquire();
+    const abortController = new AbortController();
+    const waiting = bulkhead.acquire(abortController.signal);
+    abortController.abort('stop');
+
+    await expect(waiting).rejects.toBe('stop');
+    expect(bulkhead.queued).toBe(0);
+    await expect(bulkhead.acquire(AbortSignal.abort('x'))).rejects.toBe('x');
+  });
+
+  it('should run operations in a slot', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 5 });
+    let concurrent = 0;
+    let maxSeen = 0;
+    const operation = async () => {
+      concurrent++;
+      maxSeen = Math.max(maxSeen, concurrent);
+      await delay(5);
+      concurrent--;
+    };
+
+    await Promise.all([1, 2, 3].map(() => bulkhead.execute(operation)));
+    expect(maxSeen).toBe(1);
+
+    await expect(
+      bulkhead.execute(() => Promise.reject(new Error('failed')))
+    ).rejects.toThrow('failed');
+    expect(bulkhead.running).toBe(0);
+  });
+});
+
+describe('createKeyedBulkhead', () => {
+  it('should create one bulkhead per key', async () => {
+    const bulkheads = createKeyedBulkhead({ maxConcurrent: 1 });
+    await bulkheads.get('a').acquire();
+
+    expect(bulkheads.get('a')).toBe(bulkheads.get('a'));
+    expect(bulkheads.get('a').running).toBe(1);
+    expect(bulkheads.get('b').running).toBe(0);
+    await expect(bulkheads.get('a').acquire()).rejects.toThrow(
+      BulkheadRejectedError
+    );
+    await bulkheads.get('b').acquire();
+    expect(bulkheads.keys).toEqual(['a', 'b']);
+  });
+});
+
+describe('advancedRetry', () => {
+  it('should limit concurrent attempts, including retries', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 2, maxQueue: 10 });
+    let concurrent = 0;
+    let maxSeen = 0;
+    const operation = async () => {
+      concurrent++;
+      maxSeen = Math.max(maxSeen, concurrent);
+      await delay(5);
+      concurrent--;
+      throw new Error('failed');
+    };
+
+    const results = await Promise.all(
+      [1, 2, 3, 4].map(() =>
+        advancedRetry({
+          operation,
+          errorResolvers: [
+            delayErrorResolver({
+              configuration: { maxRetries: 2, initialDelayMs: 1 },
+            }),
+          ],
+          bulkhead,
+        })
+      )
+    );
+
+    expect(results.every(r => r.totalAttempts === 3)).toBe(true);
+    expect(maxSeen).toBe(2);
+    expect(bulkhead.running).toBe(0);
+  });
+
+  it('should not hold the slot while waiting for the next attempt', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 1 });
+    const retried = advancedRetry({
+      operation: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('failed'))
+        .mockResolvedValue('ok'),
+      errorResolvers: [
+        delayErrorResolver({
+          configuration: { maxRetries: 1, initialDelayMs: 50 },
+        }),
+      ],
+      bulkhead,
+    });
+    await delay(10);
+    await expect(bulkhead.execute(() => 'other')).resolves.toBe('other');
+    await expect(retried).resolves.toMatchObject({ result: 'ok' });
+  });
+
+  it('should pass rejections to the error resolvers', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 1 });
+    const release = await bulkhead.acquire();
+    const operation = jest.fn(() => 'ok');
+
+    const result = await advancedRetry({
+      operation,
+      errorResolvers: [
+        delayErrorResolver({
+          configuration: { maxRetries: 1, initialDelayMs: 10 },
+        }),
+      ],
+      bulkhead,
+      onRetryScheduled: () => release(),
+    });
+
+    expect(result.result).toBe('ok');
+    expect(result.attempts[0].error).toBeInstanceOf(BulkheadRejectedError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting for a slot when aborted', async () => {
+    const bulkhead = createBulkhead({ maxConcurrent: 1, maxQueue: 1 });
+    await bulkhead.acquire();
+    const abortController = new AbortController();
+    const result = advancedRetry({
+      operation: () => 'ok',
+      bulkhead,
+      abortSignal: abortController.signal,
+    });
+    await delay(5);
+    abortController.abort();
+
+    await expect(result).resolves.toMatchObject({
+      success: false,
+      failureReason: 'aborted',
+    });
+    expect(bulkhead.queued).toBe(0);
+  });
+});
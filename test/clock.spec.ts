@@ -0,0 +1,209 @@
+import {
+  advancedRetry,
+  AttemptTimeoutError,
+  createBulkhead,
+  delayErrorResolver,
+  hedge,
+  RetryTimeoutError,
+  systemClock,
+  VirtualClock,
+} from '../src';
+
+describe('systemClock', () => {
+  it('should use the system time and timers', async () => {
+    const before = Date.now();
+    expect(systemClock.now()).toBeGreaterThanOrEqual(before);
+
+    const callback = jest.fn();
+    systemClock.setTimeout(callback, 1);
+    const cleared = jest.fn();
+    systemClock.clearTimeout(systemClock.setTimeout(cleared, 1));
+    await systemClock.sleep(10);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(cleared).not.toHaveBeenCalled();
+  });
+});
+
+describe('VirtualClock', () => {
+  it('should only move the time when advanced', async () => {
+    const clock = new VirtualClock(1000);
+    expect(clock.now()).toBe(1000);
+
+    await clock.advance(500);
+    expect(clock.now()).toBe(1500);
+  });
+
+  it('should run timers in order of their time', async () => {
+    const clock = new VirtualClock();
+    const calls: string[] = [];
+    clock.setTimeout(() => calls.push(`b at ${clock.now()}`), 200);
+    clock.setTimeout(() => calls.push(`a at ${clock.now()}`), 100);
+    clock.setTimeout(() => calls.push(`c at ${clock.now()}`), 200);
+    clock.setTimeout(() => calls.push(`d at ${clock.now()}`), -5);
+    expect(clock.pendingTimers).toBe(4);
+
+    await clock.advance(150);
+    expect(calls).toEqual(['d at 0', 'a at 100']);
+    expect(clock.now()).toBe(150);
+
+    await clock.advance(50);
+    expect(calls).toEqual(['d at 0', 'a at 100', 'b at 200', 'c at 200']);
+    expect(clock.pendingTimers).toBe(0);
+  });
+
+  it('should run timers set by timers', async () => {
+    const clock = new VirtualClock();
+    const callback = jest.fn();
+    clock.setTimeout(() => clock.setTimeout(callback, 100), 100);
+
+    await clock.advance(200);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should clear timers', async () => {
+    const clock = new VirtualClock();
+    const callback = jest.fn();
+    const handle = clock.setTimeout(callback, 100);
+    clock.clearTimeout(handle);
+
+    await clock.advance(100);
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should sleep until advanced', async () => {
+    const clock = new VirtualClock();
+    const slept = jest.fn();
+    clock.sleep(100).then(slept);
+
+    await clock.advance(99);
+    expect(slept).not.toHaveBeenCalled();
+    await clock.advance(1);
+    expect(slept).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop sleeping when aborted', async () => {
+    const clock = new VirtualClock();
+    const abortController = new AbortController();
+    const sleeping = clock.sleep(100, abortController.signal);
+    abortController.abort();
+
+    await sleeping;
+    expect(clock.pendingTimers).toBe(0);
+    await clock.sleep(100, abortController.signal);
+    expect(clock.now()).toBe(0);
+  });
+
+  it('should run all timers', async () => {
+    const clock = new VirtualClock();
+    const slept = jest.fn();
+    clock
+      .sleep(100)
+      .then(() => clock.sleep(5000))
+      .then(slept);
+
+    await expect(clock.runAll()).resolves.toBe(2);
+    expect(slept).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(5100);
+  });
+
+  it('should stop running timers that keep setting new ones', async () => {
+    const clock = new VirtualClock();
+    const repeat = () => {
+      clock.setTimeout(repeat, 10);
+    };
+    repeat();
+
+    await expect(clock.runAll(5)).resolves.toBe(5);
+    expect(clock.now()).toBe(50);
+  });
+
+  describe('advancedRetry', () => {
+    it('should wait for the delays of the resolvers', async () => {
+      const clock = new VirtualClock();
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('first'))
+        .mockRejectedValueOnce(new Error('second'))
+        .mockResolvedValue('ok');
+      const promise = advancedRetry({
+        operation,
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 3, initialDelayMs: 1000 },
+          }),
+        ],
+        clock,
+      });
+
+      await clock.advance(999);
+      expect(operation).toHaveBeenCalledTimes(1);
+      await clock.advance(1);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await clock.advance(2000);
+
+      const result = await promise;
+      expect(result.result).toBe('ok');
+      expect(result.totalDurationMs).toBe(3000);
+      expect(result.attempts.map(a => [a.startTime, a.delayMs])).toEqual([
+        [0, 1000],
+        [1000, 2000],
+        [3000, undefined],
+      ]);
+    });
+
+    it('should time out with the clock', async () => {
+      const clock = new VirtualClock();
+      const promise = advancedRetry({
+        operation: () => new Promise(() => {}),
+        overallTimeout: 5000,
+        clock,
+      });
+
+      await clock.advance(5000);
+      const result = await promise;
+      expect(result.error).toBeInstanceOf(RetryTimeoutError);
+      expect(result.totalDurationMs).toBe(5000);
+      expect(result.attempts[0].durationMs).toBe(5000);
+    });
+
+    it('should time out attempts with the clock', async () => {
+      const clock = new VirtualClock();
+      const promise = advancedRetry({
+        operation: () => new Promise(() => {}),
+        attemptTimeout: 100,
+        clock,
+      });
+
+      await clock.advance(100);
+      const result = await promise;
+      expect(result.error).toBeInstanceOf(AttemptTimeoutError);
+      expect(result.attempts[0].durationMs).toBe(100);
+    });
+  });
+
+  it('should be used by hedged operations and bulkheads', async () => {
+    const clock = new VirtualClock();
+    const operation = jest.fn(
+      (_?: unknown, signal?: AbortSignal) =>
+        new Promise((resolve, reject) =>
+          signal?.addEventListener('abort', () => reject(signal.reason))
+        )
+    );
+    const hedged = hedge(operation, { hedgeDelayMs: 100 }, clock);
+    Promise.resolve(hedged()).catch(() => {});
+    await clock.advance(100);
+    expect(operation).toHaveBeenCalledTimes(2);
+
+    const bulkhead = createBulkhead(
+      { maxConcurrent: 1, maxQueue: 1, queueTimeoutMs: 100 },
+      clock
+    );
+    await bulkhead.acquire();
+    const waiting = expect(bulkhead.acquire()).rejects.toThrow(
+      'Bulkhead queue timeout exceeded'
+    );
+    await clock.advance(100);
+    await waiting;
+  });
+});
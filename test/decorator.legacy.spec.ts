@@ -0,0 +1,76 @@
+import { delayErrorResolver, Retry, RetryAbortedError } from '../src';
+
+// Compiled with experimentalDecorators, see test/tsconfig.legacy.json
+describe('Retry with experimentalDecorators', () => {
+  it('should be passed the property descriptor', () => {
+    let decoratorArguments: unknown[] = [];
+    const recordArguments = (...args: unknown[]) => {
+      decoratorArguments = args;
+    };
+
+    class Service {
+      @recordArguments
+      @Retry()
+      async run() {
+        return 'ran';
+      }
+    }
+
+    expect(decoratorArguments[0]).toBe(Service.prototype);
+    expect(decoratorArguments[1]).toBe('run');
+    expect(decoratorArguments[2]).toMatchObject({ enumerable: false });
+  });
+
+  it('should retry the method with the instance as this', async () => {
+    class Service {
+      calls = 0;
+
+      constructor(private readonly name: string) {}
+
+      @Retry({
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 2 } }),
+        ],
+      })
+      async greet(greeting: string) {
+        if (++this.calls === 1) {
+          throw new Error('flaky');
+        }
+        return `${greeting} ${this.name}`;
+      }
+    }
+
+    const service = new Service('world');
+    await expect(service.greet('hello')).resolves.toBe('hello world');
+    expect(service.calls).toBe(2);
+  });
+
+  it('should reject with the error if the call failed to recover', async () => {
+    class Service {
+      @Retry()
+      async fail(): Promise<void> {
+        throw new Error('down');
+      }
+    }
+
+    await expect(new Service().fail()).rejects.toThrow('down');
+  });
+
+  it('should create the options from the instance', async () => {
+    class Service {
+      readonly abortController = new AbortController();
+
+      @Retry<Service>(self => ({
+        abortSignal: self.abortController.signal,
+      }))
+      async run() {
+        return 'ran';
+      }
+    }
+
+    const service = new Service();
+    await expect(service.run()).resolves.toBe('ran');
+    service.abortController.abort();
+    await expect(service.run()).rejects.toBeInstanceOf(RetryAbortedError);
+  });
+});
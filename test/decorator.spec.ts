@@ -0,0 +1,124 @@
+import {
+  circuitBreakerErrorResolver,
+  CircuitOpenError,
+  createCircuitBreaker,
+  delayErrorResolver,
+  Retry,
+  RetryAbortedError,
+} from '../src';
+
+describe('Retry', () => {
+  describe('TC39 decorators', () => {
+    it('should retry the method with the instance as this', async () => {
+      class Service {
+        calls = 0;
+
+        constructor(private readonly name: string) {}
+
+        @Retry({
+          errorResolvers: [
+            delayErrorResolver({ configuration: { maxRetries: 2 } }),
+          ],
+        })
+        async greet(greeting: string) {
+          if (++this.calls === 1) {
+            throw new Error('flaky');
+          }
+          return `${greeting} ${this.name}`;
+        }
+      }
+
+      const service = new Service('world');
+      await expect(service.greet('hello')).resolves.toBe('hello world');
+      expect(service.calls).toBe(2);
+    });
+
+    it('should reject with the error if the call failed to recover', async () => {
+      class Service {
+        @Retry()
+        async fail(): Promise<void> {
+          throw new Error('down');
+        }
+      }
+
+      await expect(new Service().fail()).rejects.toThrow('down');
+    });
+
+    it('should use the abort signal of the instance', async () => {
+      class Service {
+        readonly abortController = new AbortController();
+
+        @Retry<Service>(self => ({
+          abortSignal: self.abortController.signal,
+        }))
+        async run() {
+          return 'ran';
+        }
+      }
+
+      const service = new Service();
+      await expect(service.run()).resolves.toBe('ran');
+      service.abortController.abort();
+      await expect(service.run()).rejects.toBeInstanceOf(RetryAbortedError);
+    });
+
+    it('should keep the circuit state per instance', async () => {
+      class Service {
+        readonly circuitBreaker = createCircuitBreaker({
+          failureThreshold: 1,
+          resetTimeoutMs: 60000,
+        });
+
+        @Retry<Service>(self => ({
+          errorResolvers: [
+            circuitBreakerErrorResolver({
+              circuitBreaker: self.circuitBreaker,
+              resolver: delayErrorResolver({
+                configuration: { maxRetries: 1 },
+              }),
+            }),
+          ],
+        }))
+        async call(fail: boolean) {
+          if (fail) {
+            throw new Error('down');
+          }
+          return 'ok';
+        }
+      }
+
+      const broken = new Service();
+      const healthy = new Service();
+      await expect(broken.call(true)).rejects.toThrow('down');
+      await expect(broken.call(false)).rejects.toBeInstanceOf(CircuitOpenError);
+      await expect(healthy.call(false)).resolves.toBe('ok');
+    });
+  });
+
+  describe('legacy decorators', () => {
+    it('should wrap the method of the property descriptor', async () => {
+      let calls = 0;
+      const target = {
+        factor: 2,
+        multiply(n: number) {
+          if (++calls === 1) {
+            throw new Error('flaky');
+          }
+          return n * this.factor;
+        },
+      };
+      const descriptor = Object.getOwnPropertyDescriptor(target, 'multiply')!;
+
+      const decorated = Retry({
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 2 } }),
+        ],
+      })(target, 'multiply', descriptor);
+      Object.defineProperty(target, 'multiply', decorated);
+
+      await expect(target.multiply(21)).resolves.toBe(42);
+      expect(calls).toBe(2);
+      expect(decorated.enumerable).toBe(descriptor.enumerable);
+    });
+  });
+});
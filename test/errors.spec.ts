@@ -0,0 +1,338 @@
+import {
+  advancedRetry,
+  AttemptTimeoutError,
+  customErrorResolver,
+  PolicyValidationError,
+  RejectedResultError,
+  delayErrorResolver,
+  RetryAbortedError,
+  RetryExhaustedError,
+  RetryTimeoutError,
+  UnknownPolicyError,
+} from '../src';
+
+describe('RetryExhaustedError', () => {
+  it('should be an AggregateError carrying the attempt errors', () => {
+    const cause = new Error('second');
+    const error = new RetryExhaustedError({
+      errors: [new Error('first'), cause],
+      cause,
+      totalAttempts: 2,
+      totalDurationMs: 10,
+      reason: 'exhausted',
+    });
+
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.name).toBe('RetryExhaustedError');
+    expect(error.message).toBe(
+      'Operation failed after 2 attempt(s) (exhausted)'
+    );
+    expect(error.errors).toEqual([new Error('first'), cause]);
+    expect(error.cause).toBe(cause);
+    expect(error.totalAttempts).toBe(2);
+    expect(error.totalDurationMs).toBe(10);
+  });
+
+  it('should be an Error carrying the attempt errors without AggregateError', () => {
+    const globals = globalThis as {
+      AggregateError?: AggregateErrorConstructor;
+    };
+    const aggregateError = globals.AggregateError;
+    delete globals.AggregateError;
+    try {
+      jest.isolateModules(() => {
+        // Loaded again, as on Node.js versions without AggregateError
+        const errors: typeof import('../src/errors') = require('../src/errors');
+        const error = new errors.RetryExhaustedError({
+          errors: new Set([new Error('first')]) as unknown as unknown[],
+          cause: undefined,
+          totalAttempts: 1,
+          totalDurationMs: 10,
+          reason: 'exhausted',
+        });
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error).not.toBeInstanceOf(
+          aggregateError as AggregateErrorConstructor
+        );
+        expect(error.name).toBe('RetryExhaustedError');
+        expect(error.message).toBe(
+          'Operation failed after 1 attempt(s) (exhausted)'
+        );
+        expect(error.errors).toEqual([new Error('first')]);
+      });
+    } finally {
+      globals.AggregateError = aggregateError;
+    }
+  });
+
+  describe('advancedRetry', () => {
+    it('should throw the last error unless opted in', async () => {
+      await expect(
+        advancedRetry({
+          operation: () => {
+            throw new Error('test');
+          },
+          throwOnUnrecoveredError: true,
+        })
+      ).rejects.not.toBeInstanceOf(RetryExhaustedError);
+    });
+
+    it('should not throw without throwOnUnrecoveredError', async () => {
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        retryExhaustedError: true,
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('test');
+    });
+
+    it('should throw with all attempt errors when the resolvers are exhausted', async () => {
+      let attempts = 0;
+      const error = await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new Error(`error ${attempts}`);
+        },
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 2 } }),
+        ],
+        throwOnUnrecoveredError: true,
+        retryExhaustedError: true,
+      }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RetryExhaustedError);
+      expect(error.reason).toBe('exhausted');
+      expect(error.totalAttempts).toBe(3);
+      expect(error.totalDurationMs).toBeGreaterThanOrEqual(0);
+      expect(error.errors.map((e: Error) => e.message)).toEqual([
+        'error 1',
+        'error 2',
+        'error 3',
+      ]);
+      expect(error.cause.message).toBe('error 3');
+    });
+
+    it('should report unrecoverable errors', async () => {
+      const error = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          customErrorResolver({
+            configuration: {},
+            callback: () => ({ remainingAttempts: 0, unrecoverable: true }),
+          }),
+        ],
+        throwOnUnrecoveredError: true,
+        retryExhaustedError: true,
+      }).catch(e => e);
+
+      expect(error.reason).toBe('unrecoverable');
+      expect(error.totalAttempts).toBe(1);
+    });
+
+    it('should report errors thrown by a resolver as unrecoverable', async () => {
+      const error = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          customErrorResolver({
+            configuration: {},
+            callback: () => {
+              throw new Error('resolver failed');
+            },
+          }),
+        ],
+        throwOnUnrecoveredError: true,
+        retryExhaustedError: true,
+      }).catch(e => e);
+
+      expect(error.reason).toBe('unrecoverable');
+      expect(error.cause.message).toBe('resolver failed');
+    });
+
+    it('should report timeouts', async () => {
+      const error = await advancedRetry({
+        operation: () => new Promise(resolve => setTimeout(resolve, 100)),
+        overallTimeout: 10,
+        throwOnUnrecoveredError: true,
+        retryExhaustedError: true,
+      }).catch(e => e);
+
+      expect(error.reason).toBe('timeout');
+      expect(error.errors).toEqual([]);
+      expect(error.cause.message).toBe('Operation timed out');
+    });
+
+    it('should report aborts', async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+      const error = await advancedRetry({
+        operation: () => Promise.resolve(1),
+        abortSignal: abortController.signal,
+        throwOnUnrecoveredError: true,
+        retryExhaustedError: true,
+      }).catch(e => e);
+
+      expect(error.reason).toBe('aborted');
+      expect(error.totalAttempts).toBe(0);
+    });
+  });
+});
+
+describe('RetryTimeoutError', () => {
+  it('should carry the timeout', () => {
+    const error = new RetryTimeoutError(100);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('RetryTimeoutError');
+    expect(error.message).toBe('Operation timed out');
+    expect(error.timeoutMs).toBe(100);
+  });
+
+  it('should be returned and used as abort reason on timeout', async () => {
+    let operationSignal: AbortSignal | undefined;
+    const result = await advancedRetry({
+      operation: (_, signal) => {
+        operationSignal = signal;
+        return new Promise(resolve => setTimeout(resolve, 100));
+      },
+      overallTimeout: 10,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toBe('timeout');
+    expect(result.error).toBeInstanceOf(RetryTimeoutError);
+    expect(operationSignal?.reason).toBe(result.error);
+  });
+});
+
+describe('RetryAbortedError', () => {
+  it('should carry the abort reason', () => {
+    const error = new RetryAbortedError('stop');
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('RetryAbortedError');
+    expect(error.message).toBe('Operation aborted');
+    expect(error.cause).toBe('stop');
+  });
+
+  it('should propagate the reason of the external signal', async () => {
+    const abortController = new AbortController();
+    let operationSignal: AbortSignal | undefined;
+    const promise = advancedRetry({
+      operation: (_, signal) => {
+        operationSignal = signal;
+        return Promise.reject(new Error('test'));
+      },
+      errorResolvers: [
+        delayErrorResolver({
+          configuration: { maxRetries: 3, initialDelayMs: 50 },
+        }),
+      ],
+      abortSignal: abortController.signal,
+    });
+    abortController.abort('stop');
+
+    const result = await promise;
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toBe('aborted');
+    expect(result.error).toBeInstanceOf(RetryAbortedError);
+    expect((result.error as RetryAbortedError).cause).toBe('stop');
+    expect(operationSignal?.reason).toBe('stop');
+  });
+
+  it('should fail with the reason of an already aborted signal', async () => {
+    const reason = new Error('cancelled');
+    const result = await advancedRetry({
+      operation: () => Promise.resolve(1),
+      abortSignal: AbortSignal.abort(reason),
+    });
+
+    expect(result.failureReason).toBe('aborted');
+    expect((result.error as RetryAbortedError).cause).toBe(reason);
+  });
+});
+
+describe('failureReason', () => {
+  it('should be undefined on success', async () => {
+    const result = await advancedRetry({ operation: () => Promise.resolve(1) });
+    expect(result.failureReason).toBeUndefined();
+  });
+
+  it('should be exhausted when the resolvers give up', async () => {
+    const result = await advancedRetry({
+      operation: () => Promise.reject(new Error('test')),
+      errorResolvers: [
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+      ],
+    });
+    expect(result.failureReason).toBe('exhausted');
+  });
+
+  it('should be unrecoverable when a resolver says so', async () => {
+    const result = await advancedRetry({
+      operation: () => Promise.reject(new Error('test')),
+      errorResolvers: [
+        customErrorResolver({
+          configuration: {},
+          callback: () => ({ remainingAttempts: 0, unrecoverable: true }),
+        }),
+      ],
+    });
+    expect(result.failureReason).toBe('unrecoverable');
+  });
+});
+
+describe('AttemptTimeoutError', () => {
+  it('should carry the timeout', () => {
+    const error = new AttemptTimeoutError(100);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('AttemptTimeoutError');
+    expect(error.message).toBe('Attempt timed out');
+    expect(error.timeoutMs).toBe(100);
+  });
+});
+
+describe('RejectedResultError', () => {
+  it('should carry the rejected result', () => {
+    const response = { ok: false, status: 503 };
+    const error = new RejectedResultError(response);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('RejectedResultError');
+    expect(error.message).toBe('Operation result was rejected');
+    expect(error.result).toBe(response);
+    expect(error.response).toBe(response);
+  });
+});
+
+describe('PolicyValidationError', () => {
+  it('should list the issues', () => {
+    const issues = [
+      { path: '$.stages', message: 'must be a non-empty array' },
+      { path: '$.timeoutMs', message: 'must be a number' },
+    ];
+    const error = new PolicyValidationError(issues);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('PolicyValidationError');
+    expect(error.issues).toBe(issues);
+    expect(error.message).toBe(
+      'Invalid retry policy:\n' +
+        '  $.stages: must be a non-empty array\n' +
+        '  $.timeoutMs: must be a number'
+    );
+  });
+});
+
+describe('UnknownPolicyError', () => {
+  it('should carry the policy name', () => {
+    const error = new UnknownPolicyError('payments-api');
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('UnknownPolicyError');
+    expect(error.message).toBe('Unknown retry policy: payments-api');
+    expect(error.policyName).toBe('payments-api');
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  allErrorFilter,
+  anyErrorFilter,
+  noneErrorFilter,
+} from '../../src/filter/base';
+import { errorFilterToConfig } from '../../src/filter/config';
+import {
+  keywordErrorFilterAll,
+  keywordErrorFilterAny,
+} from '../../src/filter/keyword-filter';
+import {
+  serverErrorErrorFilter,
+  statusCodeErrorFilterAny,
+  statusCodeErrorFilterRange,
+} from '../../src/filter/status-code-filter';
+
+describe('filter/config', () => {
+  it('should describe filters created by the built-in factories', () => {
+    expect(errorFilterToConfig(statusCodeErrorFilterAny([429]))).toEqual({
+      type: 'statusCodeAny',
+      statusCodes: [429],
+    });
+    expect(errorFilterToConfig(statusCodeErrorFilterRange(400, 499))).toEqual({
+      type: 'statusCodeRange',
+      min: 400,
+      max: 499,
+    });
+    expect(errorFilterToConfig(serverErrorErrorFilter)).toEqual({
+      type: 'statusCodeRange',
+      min: 500,
+      max: 599,
+    });
+    expect(errorFilterToConfig(keywordErrorFilterAny(['a']))).toEqual({
+      type: 'keywordAny',
+      keywords: ['a'],
+    });
+    expect(errorFilterToConfig(keywordErrorFilterAll(['a', 'b']))).toEqual({
+      type: 'keywordAll',
+      keywords: ['a', 'b'],
+    });
+  });
+
+  it('should describe combined filters', () => {
+    const filter = allErrorFilter([
+      serverErrorErrorFilter,
+      anyErrorFilter([keywordErrorFilterAny(['a'])]),
+      noneErrorFilter([statusCodeErrorFilterAny([501])]),
+    ]);
+    expect(errorFilterToConfig(filter)).toEqual({
+      type: 'all',
+      filters: [
+        { type: 'statusCodeRange', min: 500, max: 599 },
+        { type: 'any', filters: [{ type: 'keywordAny', keywords: ['a'] }] },
+        {
+          type: 'none',
+          filters: [{ type: 'statusCodeAny', statusCodes: [501] }],
+        },
+      ],
+    });
+  });
+
+  it('should not describe other filters', () => {
+    const custom = () => true;
+    expect(errorFilterToConfig(custom)).toBeUndefined();
+    expect(errorFilterToConfig({ canHandleError: custom })).toBeUndefined();
+    expect(
+      errorFilterToConfig(anyErrorFilter([serverErrorErrorFilter, custom]))
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  errorToHeader,
+  headerErrorFilterAny,
+} from '../../src/filter/header-filter';
+
+describe('Header Filters', () => {
+  describe('errorToHeader', () => {
+    it('reads headers from a plain object case-insensitively', () => {
+      expect(
+        errorToHeader({ headers: { 'Retry-After': '10' } }, 'retry-after')
+      ).toBe('10');
+      expect(
+        errorToHeader({ headers: { 'retry-after': 5 } }, 'Retry-After')
+      ).toBe('5');
+    });
+
+    it('reads headers from a Fetch API Headers object', () => {
+      const headers = new Headers({ 'Retry-After': '3' });
+      expect(errorToHeader({ headers }, 'retry-after')).toBe('3');
+      expect(errorToHeader({ headers }, 'x-missing')).toBeNull();
+    });
+
+    // Axios error format
+    it('reads headers from a nested response object', () => {
+      expect(
+        errorToHeader(
+          { response: { status: 429, headers: { 'retry-after': '7' } } },
+          'retry-after'
+        )
+      ).toBe('7');
+      expect(
+        errorToHeader(
+          { response: { headers: new Headers({ 'retry-after': '8' }) } },
+          'retry-after'
+        )
+      ).toBe('8');
+    });
+
+    it('uses the first value of array headers', () => {
+      expect(
+        errorToHeader({ headers: { 'retry-after': ['1', '2'] } }, 'retry-after')
+      ).toBe('1');
+      expect(
+        errorToHeader({ headers: { 'retry-after': [] } }, 'retry-after')
+      ).toBeNull();
+    });
+
+    it('handles missing headers safely', () => {
+      expect(errorToHeader(null, 'retry-after')).toBeNull();
+      expect(errorToHeader('error string', 'retry-after')).toBeNull();
+      expect(errorToHeader(new Error('test'), 'retry-after')).toBeNull();
+      expect(errorToHeader({ headers: null }, 'retry-after')).toBeNull();
+      expect(
+        errorToHeader({ headers: { 'retry-after': null } }, 'retry-after')
+      ).toBeNull();
+      expect(
+        errorToHeader({ headers: { other: '1' } }, 'retry-after')
+      ).toBeNull();
+      expect(errorToHeader({ response: null }, 'retry-after')).toBeNull();
+    });
+  });
+
+  describe('headerErrorFilterAny', () => {
+    const filter = headerErrorFilterAny(['retry-after', 'ratelimit-reset']);
+
+    it('matches if any header is present', () => {
+      expect(
+        filter.canHandleError({ headers: { 'RateLimit-Reset': '1' } }, 0, {})
+      ).toBe(true);
+      expect(filter.canHandleError({ headers: { other: '1' } }, 0, {})).toBe(
+        false
+      );
+    });
+  });
+});
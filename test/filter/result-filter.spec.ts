@@ -0,0 +1,52 @@
+import {
+  allResultFilter,
+  anyResultFilter,
+  ResultFilter,
+  toResultFilter,
+} from '../../src/filter/result-filter';
+
+describe('filter/result-filter', () => {
+  describe('toResultFilter', () => {
+    it('should convert function to ResultFilter', () => {
+      const fn = () => true;
+      const filter = toResultFilter(fn);
+      expect(filter).toHaveProperty('shouldRetryResult');
+      expect(filter.shouldRetryResult).toBe(fn);
+    });
+
+    it('should return ResultFilter as is', () => {
+      const filter: ResultFilter<unknown, unknown> = {
+        shouldRetryResult: () => true,
+      };
+      expect(toResultFilter(filter)).toBe(filter);
+    });
+  });
+
+  describe('allResultFilter', () => {
+    it('should match if all filters match', () => {
+      const filter = allResultFilter<number, unknown>([
+        r => r > 0,
+        { shouldRetryResult: r => r < 10 },
+      ]);
+      expect(filter.shouldRetryResult(5, 0, {})).toBe(true);
+      expect(filter.shouldRetryResult(15, 0, {})).toBe(false);
+    });
+  });
+
+  describe('anyResultFilter', () => {
+    it('should match if any filter matches', () => {
+      const filter = anyResultFilter<number, unknown>([
+        r => r < 0,
+        { shouldRetryResult: r => r > 10 },
+      ]);
+      expect(filter.shouldRetryResult(15, 0, {})).toBe(true);
+      expect(filter.shouldRetryResult(5, 0, {})).toBe(false);
+    });
+
+    it('should pass attempt and context to the filters', () => {
+      const fn = jest.fn(() => false);
+      anyResultFilter([fn]).shouldRetryResult('pending', 2, { data: 'x' });
+      expect(fn).toHaveBeenCalledWith('pending', 2, { data: 'x' });
+    });
+  });
+});
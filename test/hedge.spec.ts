@@ -0,0 +1,154 @@
+import { advancedRetry, delayErrorResolver, hedge } from '../src';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Operation resolving after the given latency per call, recording the signals it got
+ */
+const withLatency = (
+  latencies: number[],
+  errors: (Error | undefined)[] = []
+) => {
+  const signals: AbortSignal[] = [];
+  const operation = async (_?: unknown, signal?: AbortSignal) => {
+    const call = signals.length;
+    signals.push(signal as AbortSignal);
+    await delay(latencies[call]);
+    if (errors[call]) {
+      throw errors[call];
+    }
+    return `call ${call}`;
+  };
+  return { operation, signals };
+};
+
+describe('hedge', () => {
+  it('should not hedge fast attempts', async () => {
+    const { operation, signals } = withLatency([1]);
+    await expect(hedge(operation, { hedgeDelayMs: 50 })()).resolves.toBe(
+      'call 0'
+    );
+    await delay(60);
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(false);
+  });
+
+  it('should start a hedged attempt and abort the loser', async () => {
+    const { operation, signals } = withLatency([100, 5]);
+    await expect(hedge(operation, { hedgeDelayMs: 10 })()).resolves.toBe(
+      'call 1'
+    );
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('should start up to maxHedgedAttempts additional attempts', async () => {
+    const { operation, signals } = withLatency([200, 200, 200, 1]);
+    await expect(
+      hedge(operation, { hedgeDelayMs: 5, maxHedgedAttempts: 2 })()
+    ).resolves.toBe('call 0');
+    expect(signals).toHaveLength(3);
+    expect(signals.map(s => s.aborted)).toEqual([false, true, true]);
+  });
+
+  it('should start the next attempt right away if one fails', async () => {
+    const { operation, signals } = withLatency(
+      [1, 1],
+      [new Error('first failed')]
+    );
+    const start = Date.now();
+    await expect(hedge(operation, { hedgeDelayMs: 1000 })()).resolves.toBe(
+      'call 1'
+    );
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(signals).toHaveLength(2);
+  });
+
+  it('should throw the last error if all attempts fail', async () => {
+    const { operation } = withLatency(
+      [20, 1],
+      [new Error('first'), new Error('second')]
+    );
+    await expect(hedge(operation, { hedgeDelayMs: 5 })()).rejects.toThrow(
+      'first'
+    );
+  });
+
+  it('should wait for running attempts before failing', async () => {
+    const { operation } = withLatency(
+      [20, 1],
+      [undefined, new Error('second')]
+    );
+    await expect(hedge(operation, { hedgeDelayMs: 5 })()).resolves.toBe(
+      'call 0'
+    );
+  });
+
+  it('should ignore attempts failing after the winner', async () => {
+    const { operation } = withLatency([20, 1], [new Error('late failure')]);
+    await expect(hedge(operation, { hedgeDelayMs: 5 })()).resolves.toBe(
+      'call 1'
+    );
+    await delay(30);
+  });
+
+  it('should abort all attempts with the outer signal', async () => {
+    const abortController = new AbortController();
+    const { operation, signals } = withLatency([100, 100]);
+    const promise = hedge(operation, { hedgeDelayMs: 5 })(
+      undefined,
+      abortController.signal
+    );
+    await delay(20);
+    abortController.abort('stop');
+
+    await expect(promise).rejects.toBe('stop');
+    expect(signals.map(s => s.reason)).toEqual(['stop', 'stop']);
+  });
+
+  it('should not start attempts if the outer signal is aborted', async () => {
+    const { operation, signals } = withLatency([1]);
+    await expect(
+      hedge(operation, { hedgeDelayMs: 5 })(undefined, AbortSignal.abort('x'))
+    ).rejects.toBe('x');
+    expect(signals).toHaveLength(0);
+  });
+
+  it('should pass the retry context', async () => {
+    const operation = jest.fn(() => 1);
+    await hedge(operation, { hedgeDelayMs: 5 })({ data: 'context' });
+    expect(operation).toHaveBeenCalledWith(
+      { data: 'context' },
+      expect.any(AbortSignal)
+    );
+  });
+
+  describe('advancedRetry', () => {
+    it('should hedge every attempt', async () => {
+      const { operation, signals } = withLatency(
+        [1, 100, 5],
+        [new Error('failed'), undefined, undefined]
+      );
+      const result = await advancedRetry({
+        operation,
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        ],
+        hedging: { hedgeDelayMs: 10, maxHedgedAttempts: 0 },
+      });
+
+      // Without additional attempts, the failure is retried by the resolvers
+      expect(result.success).toBe(true);
+      expect(result.totalAttempts).toBe(2);
+      expect(signals).toHaveLength(2);
+
+      const hedged = await advancedRetry({
+        operation: withLatency([100, 5]).operation,
+        hedging: { hedgeDelayMs: 10 },
+      });
+      expect(hedged.result).toBe('call 1');
+      expect(hedged.totalAttempts).toBe(1);
+    });
+  });
+});
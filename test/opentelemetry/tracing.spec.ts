@@ -0,0 +1,268 @@
+import { context, SpanStatusCode, trace } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { delayErrorResolver, keywordErrorFilterAny } from '../../src';
+import { tracedRetry } from '../../src/opentelemetry';
+
+describe('tracedRetry', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  const contextManager = new AsyncLocalStorageContextManager();
+
+  const spansNamed = (name: string) =>
+    exporter.getFinishedSpans().filter(s => s.name === name);
+  const parentOf = (span: ReadableSpan) => span.parentSpanContext?.spanId;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(contextManager.enable());
+    trace.setGlobalTracerProvider(provider);
+  });
+
+  afterAll(() => {
+    trace.disable();
+    context.disable();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  it('should create a span per call with a child span per attempt', async () => {
+    let calls = 0;
+    const result = await tracedRetry({
+      operation: () => {
+        if (calls++ === 0) {
+          throw new Error('ECONNRESET');
+        }
+        return 'ok';
+      },
+      errorResolvers: [
+        delayErrorResolver({
+          configuration: { maxRetries: 3, initialDelayMs: 5 },
+        }),
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    const [span] = spansNamed('retry');
+    const attempts = spansNamed('retry attempt');
+    expect(span.attributes).toEqual({
+      'retry.outcome': 'success',
+      'retry.attempts': 2,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+    expect(span.events.map(e => [e.name, e.attributes])).toEqual([
+      [
+        'retry.scheduled',
+        {
+          'retry.attempt': 1,
+          'retry.resolver_index': 0,
+          'retry.delay_ms': 5,
+        },
+      ],
+    ]);
+
+    expect(attempts).toHaveLength(2);
+    expect(attempts.map(parentOf)).toEqual([
+      span.spanContext().spanId,
+      span.spanContext().spanId,
+    ]);
+    expect(attempts[0].attributes).toEqual({
+      'retry.attempt': 1,
+      'retry.resolver_index': 0,
+      'retry.delay_ms': 5,
+    });
+    expect(attempts[0].status.code).toBe(SpanStatusCode.ERROR);
+    expect(attempts[0].events[0].name).toBe('exception');
+    expect(attempts[0].events[0].attributes?.['exception.message']).toBe(
+      'ECONNRESET'
+    );
+    expect(attempts[1].attributes).toEqual({ 'retry.attempt': 2 });
+    expect(attempts[1].status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should run the operation in the context of its attempt span', async () => {
+    const tracer = trace.getTracer('test');
+    const outer = tracer.startSpan('outer');
+    const activeSpans: (string | undefined)[] = [];
+
+    await context.with(trace.setSpan(context.active(), outer), () =>
+      tracedRetry({
+        operation: async () => {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          activeSpans.push(trace.getActiveSpan()?.spanContext().spanId);
+          tracer.startSpan('request').end();
+          if (activeSpans.length === 1) {
+            throw new Error('test');
+          }
+        },
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        ],
+      })
+    );
+    outer.end();
+
+    const [span] = spansNamed('retry');
+    const attempts = spansNamed('retry attempt');
+    const requests = spansNamed('request');
+    expect(parentOf(span)).toBe(outer.spanContext().spanId);
+    expect(activeSpans).toEqual(attempts.map(a => a.spanContext().spanId));
+    expect(requests.map(parentOf)).toEqual(
+      attempts.map(a => a.spanContext().spanId)
+    );
+  });
+
+  it('should record the resolvers that passed the error on and the failure', async () => {
+    const result = await tracedRetry({
+      operation: () => {
+        throw 'ECONNRESET';
+      },
+      errorResolvers: [
+        delayErrorResolver({
+          configuration: { maxRetries: 3 },
+          canHandleError: keywordErrorFilterAny(['ETIMEDOUT']),
+        }),
+        delayErrorResolver({
+          configuration: { maxRetries: 3 },
+          canHandleError: keywordErrorFilterAny(['ECONNREFUSED']),
+        }),
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    const [span] = spansNamed('retry');
+    const attempts = spansNamed('retry attempt');
+    expect(span.attributes).toEqual({
+      'retry.failure_reason': 'exhausted',
+      'retry.outcome': 'failure',
+      'retry.attempts': 2,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.events.map(e => e.name)).toEqual([
+      'retry.scheduled',
+      'exception',
+    ]);
+    expect(
+      attempts[0].events
+        .filter(e => e.name === 'retry.resolver_exhausted')
+        .map(e => e.attributes)
+    ).toEqual([{ 'retry.resolver_index': 0 }]);
+    expect(attempts[0].attributes['retry.resolver_index']).toBe(0);
+    expect(
+      attempts[1].events
+        .filter(e => e.name === 'retry.resolver_exhausted')
+        .map(e => e.attributes)
+    ).toEqual([{ 'retry.resolver_index': 1 }]);
+    expect(attempts[1].events[0].attributes?.['exception.message']).toBe(
+      'ECONNRESET'
+    );
+  });
+
+  it('should record the error thrown if throwOnUnrecoveredError is set', async () => {
+    await expect(
+      tracedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        throwOnUnrecoveredError: true,
+      })
+    ).rejects.toThrow('test');
+
+    const [span] = spansNamed('retry');
+    expect(span.attributes).toEqual({
+      'retry.failure_reason': 'exhausted',
+      'retry.outcome': 'failure',
+      'retry.attempts': 1,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.ERROR);
+    expect(span.events[0].attributes?.['exception.message']).toBe('test');
+    expect(spansNamed('retry attempt')).toHaveLength(1);
+  });
+
+  it('should record the outcome of a fallback', async () => {
+    const result = await tracedRetry({
+      operation: () => {
+        throw new Error('test');
+      },
+      fallback: () => 'cached',
+    });
+
+    expect(result.result).toBe('cached');
+    const [span] = spansNamed('retry');
+    expect(span.attributes).toEqual({
+      'retry.failure_reason': 'exhausted',
+      'retry.outcome': 'fallback',
+      'retry.attempts': 1,
+    });
+    expect(span.status.code).toBe(SpanStatusCode.UNSET);
+  });
+
+  it('should use the tracer, span name and attributes of the options', async () => {
+    const tracer = provider.getTracer('custom');
+    await tracedRetry(
+      { operation: () => 'ok' },
+      { tracer, spanName: 'fetch data', attributes: { 'peer.service': 'api' } }
+    );
+
+    const [span] = spansNamed('fetch data');
+    expect(span.instrumentationScope.name).toBe('custom');
+    expect(span.attributes).toEqual({
+      'peer.service': 'api',
+      'retry.outcome': 'success',
+      'retry.attempts': 1,
+    });
+    expect(spansNamed('fetch data attempt')).toHaveLength(1);
+  });
+
+  it('should call the hooks of the options', async () => {
+    const events: string[] = [];
+    await tracedRetry({
+      operation: () => {
+        throw new Error('test');
+      },
+      errorResolvers: [
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+      ],
+      onAttemptStart: ({ attempt }) => events.push(`start ${attempt}`),
+      onAttemptError: ({ attempt }) => events.push(`error ${attempt}`),
+      onResolverExhausted: ({ resolverIndex }) =>
+        events.push(`exhausted ${resolverIndex}`),
+      onRetryScheduled: ({ resolverIndex }) =>
+        events.push(`retry ${resolverIndex}`),
+      onGiveUp: ({ failureReason }) => events.push(`give up ${failureReason}`),
+    });
+    await tracedRetry({
+      operation: () => 'ok',
+      onSuccess: ({ result }) => events.push(`success ${result}`),
+    });
+
+    expect(events).toEqual([
+      'start 1',
+      'error 1',
+      'retry 0',
+      'start 2',
+      'error 2',
+      'exhausted 0',
+      'retry 0',
+      'start 3',
+      'error 3',
+      'retry 1',
+      'start 4',
+      'error 4',
+      'exhausted 1',
+      'give up exhausted',
+      'success ok',
+    ]);
+  });
+});
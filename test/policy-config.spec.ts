@@ -0,0 +1,296 @@
+import {
+  keywordErrorFilterAny,
+  parseRetryPolicy,
+  PolicyValidationError,
+  RetryPolicy,
+  retryPolicyToConfig,
+  serverErrorErrorFilter,
+  validateRetryPolicyConfig,
+} from '../src';
+
+const config = {
+  stages: [
+    {
+      filter: { type: 'statusCodeAny', statusCodes: [429] },
+      wait: { type: 'retryAfter', maxDelayMs: 30000, defaultDelayMs: 1000 },
+      maxRetries: 5,
+    },
+    {
+      filter: {
+        type: 'all',
+        filters: [
+          { type: 'statusCodeRange', min: 500, max: 599 },
+          { type: 'none', filters: [{ type: 'keywordAll', keywords: ['x'] }] },
+        ],
+      },
+      wait: {
+        type: 'exponential',
+        initialDelayMs: 100,
+        maxDelayMs: 5000,
+        factor: 3,
+        jitter: 'full',
+      },
+      maxRetries: 3,
+    },
+    {
+      filter: {
+        type: 'any',
+        filters: [{ type: 'keywordAny', keywords: ['ECONNRESET'] }],
+      },
+      wait: {
+        type: 'linear',
+        initialDelayMs: 10,
+        maxDelayMs: 100,
+        backoffMultiplier: 2,
+      },
+      maxRetries: 2,
+    },
+    { wait: { type: 'fixed', delayMs: 0 }, maxRetries: 1 },
+  ],
+  timeoutMs: 60000,
+  attemptTimeoutMs: 5000,
+};
+
+const issuesOf = (value: unknown) =>
+  validateRetryPolicyConfig(value).map(i => `${i.path}: ${i.message}`);
+
+describe('policy config', () => {
+  describe('parseRetryPolicy', () => {
+    it('should compile the configuration to a policy', async () => {
+      const policy = parseRetryPolicy(config);
+      expect(policy).toBeInstanceOf(RetryPolicy);
+      expect(policy.definition.timeoutMs).toBe(60000);
+      expect(policy.definition.attemptTimeoutMs).toBe(5000);
+      expect(policy.toResolvers()).toHaveLength(1);
+
+      const stages = policy.definition.stages;
+      expect(stages.map(s => s.maxRetries)).toEqual([5, 3, 2, 1]);
+      expect(stages.map(s => s.wait.type)).toEqual([
+        'retryAfter',
+        'exponential',
+        'linear',
+        'fixed',
+      ]);
+      const filter = stages[1].filter as {
+        canHandleError: (e: unknown) => boolean;
+      };
+      expect(filter.canHandleError({ status: 503 })).toBe(true);
+      expect(filter.canHandleError({ status: 503, message: 'x' })).toBe(false);
+    });
+
+    it('should parse JSON strings and apply defaults', () => {
+      const policy = parseRetryPolicy('{"stages": [{}]}');
+      expect(policy.definition).toEqual({
+        stages: [{ wait: { type: 'fixed', delayMs: 0 }, maxRetries: 3 }],
+      });
+    });
+
+    it('should retry as configured', async () => {
+      let attempts = 0;
+      const result = await parseRetryPolicy({
+        stages: [
+          {
+            filter: { type: 'keywordAny', keywords: ['flaky'] },
+            maxRetries: 2,
+          },
+        ],
+      }).execute(() => {
+        if (++attempts < 3) {
+          throw new Error('flaky');
+        }
+        return 'success';
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.totalAttempts).toBe(3);
+    });
+
+    it('should throw a PolicyValidationError listing all issues', () => {
+      let error: PolicyValidationError | undefined;
+      try {
+        parseRetryPolicy({ stages: [{ maxRetries: -1, retries: 3 }] });
+      } catch (e) {
+        error = e as PolicyValidationError;
+      }
+
+      expect(error).toBeInstanceOf(PolicyValidationError);
+      expect(error?.issues).toEqual([
+        { path: '$.stages[0].retries', message: 'unknown property' },
+        { path: '$.stages[0].maxRetries', message: 'must be at least 0' },
+      ]);
+      expect(error?.message).toBe(
+        'Invalid retry policy:\n' +
+          '  $.stages[0].retries: unknown property\n' +
+          '  $.stages[0].maxRetries: must be at least 0'
+      );
+    });
+  });
+
+  describe('validateRetryPolicyConfig', () => {
+    it('should accept valid configurations', () => {
+      expect(issuesOf(config)).toEqual([]);
+      expect(issuesOf(JSON.stringify(config))).toEqual([]);
+    });
+
+    it('should report invalid JSON', () => {
+      expect(issuesOf('{')).toEqual([
+        expect.stringMatching(/^\$: invalid JSON \(.+\)$/),
+      ]);
+    });
+
+    it('should report invalid policies', () => {
+      expect(issuesOf([])).toEqual(['$: must be an object']);
+      expect(issuesOf({ stages: [], timeoutMs: 0 })).toEqual([
+        '$.stages: must be a non-empty array',
+        '$.timeoutMs: must be at least 1',
+      ]);
+      expect(
+        issuesOf({ stages: [null], attemptTimeoutMs: 'fast', extra: 1 })
+      ).toEqual([
+        '$.extra: unknown property',
+        '$.stages[0]: must be an object',
+        '$.attemptTimeoutMs: must be a number',
+      ]);
+      expect(issuesOf({ stages: [{ maxRetries: 1.5 }] })).toEqual([
+        '$.stages[0].maxRetries: must be an integer',
+      ]);
+    });
+
+    it('should report invalid filters', () => {
+      const filterIssues = (filter: unknown) =>
+        issuesOf({ stages: [{ filter }] });
+
+      expect(filterIssues(null)).toEqual([
+        '$.stages[0].filter: must be an object',
+      ]);
+      expect(filterIssues('5xx')).toEqual([
+        '$.stages[0].filter: must be an object',
+      ]);
+      expect(filterIssues({ type: 'regex' })).toEqual([
+        '$.stages[0].filter.type: must be one of statusCodeAny, statusCodeRange, keywordAny, keywordAll, all, any, none',
+      ]);
+      expect(
+        filterIssues({ type: 'statusCodeAny', statusCodes: [429, '503'] })
+      ).toEqual(['$.stages[0].filter.statusCodes[1]: must be a number']);
+      expect(
+        filterIssues({ type: 'statusCodeRange', min: 599, max: 500 })
+      ).toEqual(['$.stages[0].filter.max: must be at least min']);
+      expect(filterIssues({ type: 'keywordAny', keywords: [1] })).toEqual([
+        '$.stages[0].filter.keywords[0]: must be a string',
+      ]);
+      expect(filterIssues({ type: 'keywordAll', keywords: [] })).toEqual([
+        '$.stages[0].filter.keywords: must be a non-empty array',
+      ]);
+      expect(filterIssues({ type: 'statusCodeAny' })).toEqual([
+        '$.stages[0].filter.statusCodes: must be a non-empty array',
+      ]);
+      expect(
+        filterIssues({ type: 'any', filters: [{ type: 'all', filters: {} }] })
+      ).toEqual([
+        '$.stages[0].filter.filters[0].filters: must be a non-empty array',
+      ]);
+      expect(
+        filterIssues({ type: 'keywordAny', keywords: ['a'], statusCodes: [] })
+      ).toEqual(['$.stages[0].filter.statusCodes: unknown property']);
+    });
+
+    it('should report invalid waits', () => {
+      const waitIssues = (wait: unknown) => issuesOf({ stages: [{ wait }] });
+
+      expect(waitIssues(null)).toEqual(['$.stages[0].wait: must be an object']);
+      expect(waitIssues(5)).toEqual(['$.stages[0].wait: must be an object']);
+      expect(waitIssues({ type: 'random' })).toEqual([
+        '$.stages[0].wait.type: must be one of fixed, linear, exponential, retryAfter',
+      ]);
+      expect(waitIssues({ type: 'fixed' })).toEqual([
+        '$.stages[0].wait.delayMs: must be a number',
+      ]);
+      expect(
+        waitIssues({
+          type: 'linear',
+          initialDelayMs: -1,
+          maxDelayMs: null,
+          backoffMultiplier: 'two',
+        })
+      ).toEqual([
+        '$.stages[0].wait.initialDelayMs: must be at least 0',
+        '$.stages[0].wait.maxDelayMs: must be a number',
+        '$.stages[0].wait.backoffMultiplier: must be a number',
+      ]);
+      expect(
+        waitIssues({
+          type: 'exponential',
+          initialDelayMs: 1,
+          factor: 'two',
+          jitter: 'some',
+          random: 1,
+        })
+      ).toEqual([
+        '$.stages[0].wait.random: unknown property',
+        '$.stages[0].wait.factor: must be a number',
+        '$.stages[0].wait.jitter: must be one of none, full, equal, decorrelated',
+      ]);
+      expect(waitIssues({ type: 'retryAfter', defaultDelayMs: -5 })).toEqual([
+        '$.stages[0].wait.maxDelayMs: must be a number',
+        '$.stages[0].wait.defaultDelayMs: must be at least 0',
+      ]);
+    });
+  });
+
+  describe('retryPolicyToConfig', () => {
+    it('should dump a parsed policy back to the same configuration', () => {
+      expect(retryPolicyToConfig(parseRetryPolicy(config))).toEqual(config);
+    });
+
+    it('should dump policies built in code', () => {
+      const policy = RetryPolicy.handle(serverErrorErrorFilter)
+        .waitFixed(10)
+        .orElse(keywordErrorFilterAny(['ECONNRESET']))
+        .waitExponential({ initialDelayMs: 5 });
+
+      const dumped = retryPolicyToConfig(policy);
+      expect(dumped).toEqual({
+        stages: [
+          {
+            filter: { type: 'statusCodeRange', min: 500, max: 599 },
+            wait: { type: 'fixed', delayMs: 10 },
+            maxRetries: 3,
+          },
+          {
+            filter: { type: 'keywordAny', keywords: ['ECONNRESET'] },
+            wait: { type: 'exponential', initialDelayMs: 5 },
+            maxRetries: 3,
+          },
+        ],
+      });
+      expect(validateRetryPolicyConfig(dumped)).toEqual([]);
+    });
+
+    it('should not share state with the policy', () => {
+      const policy = parseRetryPolicy(config);
+      const dumped = retryPolicyToConfig(policy);
+      dumped.stages[0].maxRetries = 100;
+      expect(retryPolicyToConfig(policy)).toEqual(config);
+    });
+
+    it('should reject policies that cannot be serialized', () => {
+      const policy = RetryPolicy.handle(() => true)
+        .orElse(serverErrorErrorFilter)
+        .waitExponential({ initialDelayMs: 1, random: () => 0.5 });
+
+      expect(() => retryPolicyToConfig(policy)).toThrow(
+        new PolicyValidationError([
+          {
+            path: '$.stages[0].filter',
+            message:
+              'only filters created by the built-in filter factories can be serialized',
+          },
+          {
+            path: '$.stages[1].wait.random',
+            message: 'a custom random source cannot be serialized',
+          },
+        ])
+      );
+    });
+  });
+});
@@ -0,0 +1,187 @@
+import {
+  advancedRetry,
+  keywordErrorFilterAny,
+  RetryPolicy,
+  RetryTimeoutError,
+  statusCodeErrorFilterAny,
+} from '../src';
+
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly headers: Record<string, string> = {}
+  ) {
+    super(`HTTP ${status}`);
+  }
+}
+
+const failing = (...errors: unknown[]) => {
+  let attempts = 0;
+  return () => {
+    const error = errors[attempts++];
+    return error === undefined
+      ? Promise.resolve('success')
+      : Promise.reject(error);
+  };
+};
+
+describe('RetryPolicy', () => {
+  it('should build a stage with defaults', () => {
+    const filter = statusCodeErrorFilterAny([503]);
+    expect(RetryPolicy.handle(filter).definition).toEqual({
+      stages: [{ filter, wait: { type: 'fixed', delayMs: 0 }, maxRetries: 3 }],
+    });
+  });
+
+  it('should configure the current stage', () => {
+    const policy = RetryPolicy.handle()
+      .waitExponential({ initialDelayMs: 100, jitter: 'full' })
+      .maxRetries(5)
+      .orElse()
+      .waitLinear(10, 50, 2)
+      .orElse()
+      .waitRetryAfter({ maxDelayMs: 1000 })
+      .orElse()
+      .waitFixed(20)
+      .timeout(5000)
+      .attemptTimeout(500);
+
+    expect(policy.definition).toEqual({
+      stages: [
+        {
+          wait: { type: 'exponential', initialDelayMs: 100, jitter: 'full' },
+          maxRetries: 5,
+        },
+        {
+          wait: {
+            type: 'linear',
+            initialDelayMs: 10,
+            maxDelayMs: 50,
+            backoffMultiplier: 2,
+          },
+          maxRetries: 3,
+        },
+        { wait: { type: 'retryAfter', maxDelayMs: 1000 }, maxRetries: 3 },
+        { wait: { type: 'fixed', delayMs: 20 }, maxRetries: 3 },
+      ],
+      timeoutMs: 5000,
+      attemptTimeoutMs: 500,
+    });
+  });
+
+  it('should be immutable', () => {
+    const base = RetryPolicy.handle().maxRetries(2);
+    const extended = base.maxRetries(5).orElse().timeout(100);
+
+    expect(base.definition.stages).toHaveLength(1);
+    expect(base.definition.stages[0].maxRetries).toBe(2);
+    expect(base.definition.timeoutMs).toBeUndefined();
+    expect(extended.definition.stages[0].maxRetries).toBe(5);
+    expect(Object.isFrozen(base)).toBe(true);
+    expect(Object.isFrozen(base.definition)).toBe(true);
+    expect(Object.isFrozen(base.definition.stages)).toBe(true);
+    expect(Object.isFrozen(base.definition.stages[0])).toBe(true);
+    expect(Object.isFrozen(base.definition.stages[0].wait)).toBe(true);
+  });
+
+  it('should throw if there is no stage to configure', () => {
+    const policy = RetryPolicy.from({ stages: [] });
+
+    expect(() => policy.maxRetries(2)).toThrow(
+      'The policy has no stage to configure, add one with orElse first'
+    );
+    expect(() => policy.waitFixed(100)).toThrow(
+      'The policy has no stage to configure'
+    );
+    expect(policy.orElse().maxRetries(2).definition.stages).toHaveLength(1);
+  });
+
+  it('should combine the stages into one resolver and create the options', () => {
+    const options = RetryPolicy.handle()
+      .orElse()
+      .timeout(1000)
+      .attemptTimeout(100)
+      .toOptions();
+
+    expect(options.errorResolvers).toHaveLength(1);
+    expect(options.overallTimeout).toBe(1000);
+    expect(options.attemptTimeout).toBe(100);
+  });
+
+  describe('execute', () => {
+    it('should retry with the delays of the stages', async () => {
+      const result = await RetryPolicy.handle(statusCodeErrorFilterAny([503]))
+        .waitFixed(5)
+        .maxRetries(2)
+        .orElse(keywordErrorFilterAny(['ECONNRESET']))
+        .waitLinear(1, 10, 3)
+        .orElse(statusCodeErrorFilterAny([429]))
+        .waitRetryAfter({ maxDelayMs: 10 })
+        .orElse()
+        .waitExponential({ initialDelayMs: 2 })
+        .execute(
+          failing(
+            new HttpError(503),
+            new Error('read ECONNRESET'),
+            new HttpError(429, { 'retry-after': '0.003' }),
+            new Error('other'),
+            new HttpError(503)
+          )
+        );
+
+      expect(result.success).toBe(true);
+      expect(result.attempts.map(a => a.delayMs)).toEqual([
+        5,
+        3,
+        3,
+        2,
+        4,
+        undefined,
+      ]);
+    });
+
+    it('should keep the current stage per operation', async () => {
+      const options = RetryPolicy.handle(keywordErrorFilterAny(['first']))
+        .waitFixed(1)
+        .orElse()
+        .waitFixed(2)
+        .toOptions<string>();
+
+      const [passedOn, retried] = await Promise.all([
+        advancedRetry({
+          ...options,
+          operation: failing(new Error('other'), new Error('first')),
+        }),
+        advancedRetry({
+          ...options,
+          operation: failing(new Error('first'), new Error('first')),
+        }),
+      ]);
+
+      expect(passedOn.attempts.map(a => a.delayMs)).toEqual([2, 2, undefined]);
+      expect(retried.attempts.map(a => a.delayMs)).toEqual([1, 1, undefined]);
+    });
+
+    it('should give up after the last stage', async () => {
+      const result = await RetryPolicy.handle()
+        .maxRetries(1)
+        .execute(failing(new Error('1'), new Error('2')));
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('exhausted');
+      expect(result.error?.message).toBe('2');
+    });
+
+    it('should apply the timeout and additional options', async () => {
+      const onAttemptStart = jest.fn();
+      const result = await RetryPolicy.handle()
+        .timeout(10)
+        .execute(() => new Promise(resolve => setTimeout(resolve, 100)), {
+          onAttemptStart,
+        });
+
+      expect(result.error).toBeInstanceOf(RetryTimeoutError);
+      expect(onAttemptStart).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { poll, RetryTimeoutError, PollProgress, VirtualClock } from '../src';
+
+describe('poll', () => {
+  it('should poll until the result is complete', async () => {
+    const statuses = ['pending', 'running', 'done'];
+    let polls = 0;
+    const progress: PollProgress<{ status: string }>[] = [];
+    const result = await poll({
+      operation: () => ({ status: statuses[polls++] }),
+      isComplete: job => job.status === 'done',
+      delay: { initialDelayMs: 1 },
+      onProgress: p => progress.push(p),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.result).toEqual({ status: 'done' });
+    expect(result.totalAttempts).toBe(3);
+    expect(progress.map(p => [p.attempt, p.result.status, p.delayMs])).toEqual([
+      [1, 'pending', 1],
+      [2, 'running', 2],
+    ]);
+    expect(progress[0].elapsedMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should not call onProgress if the first result is complete', async () => {
+    const onProgress = jest.fn();
+    const result = await poll({
+      operation: async () => 'done',
+      isComplete: r => r === 'done',
+      delay: { initialDelayMs: 1 },
+      onProgress,
+    });
+
+    expect(result.success).toBe(true);
+    expect(onProgress).not.toHaveBeenCalled();
+  });
+
+  it('should wait with the given clock', async () => {
+    const clock = new VirtualClock();
+    const promise = poll({
+      operation: () => 'pending',
+      isComplete: r => r === 'done',
+      delay: { initialDelayMs: 1000, factor: 1 },
+      maxWaitMs: 60000,
+      clock,
+    });
+
+    await clock.advance(60000);
+    const result = await promise;
+    expect(result.error).toBeInstanceOf(RetryTimeoutError);
+    expect(result.totalAttempts).toBeUndefined();
+    expect(result.attempts).toHaveLength(60);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const result = await poll({
+      operation: () => 'pending',
+      isComplete: r => r === 'done',
+      delay: { initialDelayMs: 1, factor: 1 },
+      maxAttempts: 3,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toBe('exhausted');
+    expect(result.totalAttempts).toBe(3);
+    expect(result.rejectedResult).toBe('pending');
+  });
+
+  it('should give up after maxWaitMs', async () => {
+    const result = await poll({
+      operation: () => 'pending',
+      isComplete: r => r === 'done',
+      delay: { initialDelayMs: 5, factor: 1 },
+      maxWaitMs: 30,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toBe('timeout');
+    expect(result.error).toBeInstanceOf(RetryTimeoutError);
+    expect(result.rejectedResult).toBe('pending');
+  });
+
+  it('should stop when aborted', async () => {
+    const abortController = new AbortController();
+    let signal: AbortSignal | undefined;
+    const result = await poll({
+      operation: s => {
+        signal = s;
+        return 'pending';
+      },
+      isComplete: r => r === 'done',
+      delay: { initialDelayMs: 1000 },
+      abortSignal: abortController.signal,
+      onProgress: () => abortController.abort(),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.failureReason).toBe('aborted');
+    expect(result.totalAttempts).toBeUndefined();
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('should stop on errors thrown by the operation', async () => {
+    let polls = 0;
+    const result = await poll({
+      operation: () => {
+        if (++polls === 2) {
+          throw new Error('job failed');
+        }
+        return 'pending';
+      },
+      isComplete: r => r === 'done',
+      delay: { initialDelayMs: 1 },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('job failed');
+    expect(result.totalAttempts).toBe(2);
+    expect(result.rejectedResult).toBeUndefined();
+  });
+});
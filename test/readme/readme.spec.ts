@@ -5,6 +5,7 @@ import {
   customErrorResolver,
   keywordErrorFilterAny,
   allErrorFilter,
+  RetryAbortedError,
 } from '../../src/index';
 
 describe('README Examples', () => {
@@ -175,8 +176,9 @@ describe('README Examples', () => {
 
       const result = await operationPromise;
       expect(result.success).toBe(false);
-      expect(result.error).toBeInstanceOf(Error);
-      expect(result.error?.name).toBe('Error');
+      expect(result.error).toBeInstanceOf(RetryAbortedError);
+      expect(result.error?.name).toBe('RetryAbortedError');
+      expect(result.failureReason).toBe('aborted');
     });
   });
 
@@ -0,0 +1,188 @@
+import {
+  advancedRetry,
+  defaultRetryPolicyRegistry,
+  delayErrorResolver,
+  PolicyValidationError,
+  RetryPolicy,
+  RetryPolicyRegistry,
+  UnknownPolicyError,
+} from '../src';
+
+const failing = (failures: number) => {
+  let attempts = 0;
+  return () =>
+    ++attempts <= failures
+      ? Promise.reject(new Error(`error ${attempts}`))
+      : Promise.resolve('success');
+};
+
+describe('RetryPolicyRegistry', () => {
+  it('should register and look up policies', () => {
+    const policy = RetryPolicy.handle().maxRetries(1);
+    const registry = new RetryPolicyRegistry()
+      .register('payments-api', policy)
+      .register('search-api', { stages: [{ maxRetries: 5 }] });
+
+    expect(registry.get('payments-api')).toBe(policy);
+    expect(registry.get('search-api').definition.stages[0].maxRetries).toBe(5);
+    expect(registry.has('payments-api')).toBe(true);
+    expect(registry.names()).toEqual(['payments-api', 'search-api']);
+    expect(registry.delete('payments-api')).toBe(true);
+    expect(registry.has('payments-api')).toBe(false);
+    expect(() => registry.get('payments-api')).toThrow(
+      new UnknownPolicyError('payments-api')
+    );
+  });
+
+  it('should reject invalid configurations', () => {
+    expect(() =>
+      new RetryPolicyRegistry().register('api', { stages: [] })
+    ).toThrow(PolicyValidationError);
+  });
+
+  it('should load all configurations or none', () => {
+    const registry = new RetryPolicyRegistry().load({
+      'payments-api': { stages: [{ maxRetries: 1 }] },
+    });
+    const payments = registry.get('payments-api');
+
+    let error: PolicyValidationError | undefined;
+    try {
+      registry.load({
+        'payments-api': { stages: [{ maxRetries: 2 }] },
+        'search-api': { stages: [{ maxRetries: -1 }] },
+      });
+    } catch (e) {
+      error = e as PolicyValidationError;
+    }
+
+    expect(error?.issues).toEqual([
+      {
+        path: '$["search-api"].stages[0].maxRetries',
+        message: 'must be at least 0',
+      },
+    ]);
+    expect(registry.get('payments-api')).toBe(payments);
+    expect(registry.has('search-api')).toBe(false);
+
+    registry.load({ 'payments-api': { stages: [{ maxRetries: 2 }] } });
+    expect(registry.get('payments-api')).not.toBe(payments);
+  });
+
+  describe('advancedRetry', () => {
+    afterEach(() => {
+      defaultRetryPolicyRegistry
+        .names()
+        .forEach(name => defaultRetryPolicyRegistry.delete(name));
+    });
+
+    it('should use a policy of the default registry', async () => {
+      defaultRetryPolicyRegistry.register(
+        'api',
+        RetryPolicy.handle().maxRetries(2)
+      );
+
+      const result = await advancedRetry({
+        operation: failing(2),
+        policy: 'api',
+      });
+      expect(result.success).toBe(true);
+      expect(result.totalAttempts).toBe(3);
+    });
+
+    it('should use a policy of another registry or a policy itself', async () => {
+      const policy = RetryPolicy.handle().maxRetries(1);
+      const policyRegistry = new RetryPolicyRegistry().register('api', policy);
+
+      const byName = await advancedRetry({
+        operation: failing(2),
+        policy: 'api',
+        policyRegistry,
+      });
+      const byPolicy = await advancedRetry({ operation: failing(2), policy });
+      expect(byName.totalAttempts).toBe(2);
+      expect(byPolicy.totalAttempts).toBe(2);
+    });
+
+    it('should prefer explicit options over the policy', async () => {
+      const policy = RetryPolicy.handle().maxRetries(0).timeout(1);
+
+      const result = await advancedRetry({
+        operation: failing(1),
+        policy,
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        ],
+        overallTimeout: 1000,
+        attemptTimeout: 500,
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('should apply the timeouts of the policy', async () => {
+      const result = await advancedRetry({
+        operation: () => new Promise(resolve => setTimeout(resolve, 100)),
+        policy: RetryPolicy.handle()
+          .maxRetries(0)
+          .attemptTimeout(5)
+          .timeout(50),
+      });
+      expect(result.failureReason).toBe('exhausted');
+      expect(result.totalAttempts).toBe(1);
+    });
+
+    it('should keep the policy a call started with', async () => {
+      defaultRetryPolicyRegistry.register(
+        'api',
+        RetryPolicy.handle().maxRetries(3).waitFixed(10)
+      );
+
+      const running = advancedRetry({ operation: failing(3), policy: 'api' });
+      defaultRetryPolicyRegistry.register(
+        'api',
+        RetryPolicy.handle().maxRetries(0)
+      );
+      const next = advancedRetry({ operation: failing(3), policy: 'api' });
+
+      expect((await running).success).toBe(true);
+      expect((await next).success).toBe(false);
+    });
+
+    it('should reject unknown policies without calling the fallback', async () => {
+      const operation = jest.fn(() => 1);
+      const fallback = jest.fn(() => 2);
+      const onGiveUp = jest.fn();
+      const finallyCallback = jest.fn();
+      await expect(
+        advancedRetry({
+          operation,
+          policy: 'unknown',
+          fallback,
+          onGiveUp,
+          finallyCallback,
+        })
+      ).rejects.toBeInstanceOf(UnknownPolicyError);
+      await expect(
+        advancedRetry({ operation, policy: 'unknown' })
+      ).rejects.toBeInstanceOf(UnknownPolicyError);
+
+      expect(operation).not.toHaveBeenCalled();
+      expect(fallback).not.toHaveBeenCalled();
+      expect(onGiveUp).not.toHaveBeenCalled();
+      expect(finallyCallback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject unknown policies if throwOnUnrecoveredError is set', async () => {
+      const finallyCallback = jest.fn();
+      await expect(
+        advancedRetry({
+          operation: () => 1,
+          policy: 'unknown',
+          throwOnUnrecoveredError: true,
+          finallyCallback,
+        })
+      ).rejects.toBeInstanceOf(UnknownPolicyError);
+      expect(finallyCallback).toHaveBeenCalledTimes(1);
+    });
+  });
+});
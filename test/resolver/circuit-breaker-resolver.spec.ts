@@ -0,0 +1,314 @@
+import {
+  advancedRetry,
+  circuitBreakerErrorResolver,
+  CircuitOpenError,
+  CircuitStateTransition,
+  createCircuitBreaker,
+  customErrorResolver,
+  delayErrorResolver,
+  statusCodeErrorFilterRange,
+  VirtualClock,
+} from '../../src';
+
+describe('circuitBreakerErrorResolver', () => {
+  let now = 0;
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('createCircuitBreaker', () => {
+    it('should use the given clock', async () => {
+      const clock = new VirtualClock(5000);
+      const breaker = createCircuitBreaker(
+        { failureThreshold: 1, resetTimeoutMs: 100 },
+        clock
+      );
+      const transitions: CircuitStateTransition[] = [];
+      breaker.onStateChange(t => transitions.push(t));
+
+      breaker.recordFailure();
+      await clock.advance(100);
+      expect(breaker.state).toBe('half-open');
+      expect(transitions.map(t => t.timestamp)).toEqual([5000, 5100]);
+    });
+
+    it('should open after the failure threshold and emit transitions', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 2,
+        resetTimeoutMs: 100,
+      });
+      const transitions: CircuitStateTransition[] = [];
+      breaker.onStateChange(t => transitions.push(t));
+
+      breaker.recordFailure();
+      expect(breaker.state).toBe('closed');
+      expect(breaker.failures).toBe(1);
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+      expect(transitions).toEqual([
+        { from: 'closed', to: 'open', timestamp: 1000 },
+      ]);
+    });
+
+    it('should reset the failures on success', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 2,
+        resetTimeoutMs: 100,
+      });
+      breaker.recordFailure();
+      breaker.recordSuccess();
+      breaker.recordFailure();
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should fail fast while open', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+      breaker.recordFailure();
+      now += 40;
+      expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+      try {
+        breaker.acquire();
+      } catch (e) {
+        expect((e as CircuitOpenError).state).toBe('open');
+        expect((e as CircuitOpenError).retryAfterMs).toBe(60);
+      }
+    });
+
+    it('should let the configured number of probes through while half-open', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+        halfOpenMaxAttempts: 2,
+      });
+      breaker.recordFailure();
+      now += 100;
+      expect(breaker.state).toBe('half-open');
+      expect(() => breaker.acquire()).not.toThrow();
+      expect(() => breaker.acquire()).not.toThrow();
+      expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    });
+
+    it('should free the slot of a probe that did not report back within the reset timeout', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+      breaker.recordFailure();
+      now += 100;
+      breaker.acquire();
+      now += 60;
+      expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+      try {
+        breaker.acquire();
+      } catch (e) {
+        expect((e as CircuitOpenError).state).toBe('half-open');
+        expect((e as CircuitOpenError).retryAfterMs).toBe(40);
+      }
+      now += 40;
+      expect(() => breaker.acquire()).not.toThrow();
+      expect(breaker.state).toBe('half-open');
+    });
+
+    it('should close after a successful probe and reopen after a failed one', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 3,
+        resetTimeoutMs: 100,
+      });
+      const transitions: string[] = [];
+      const unsubscribe = breaker.onStateChange(t =>
+        transitions.push(`${t.from}->${t.to}`)
+      );
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      now += 100;
+      breaker.acquire();
+      breaker.recordFailure();
+      expect(breaker.state).toBe('open');
+      now += 100;
+      breaker.acquire();
+      breaker.recordSuccess();
+      expect(breaker.state).toBe('closed');
+      expect(breaker.failures).toBe(0);
+
+      unsubscribe();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      breaker.recordFailure();
+      expect(transitions).toEqual([
+        'closed->open',
+        'open->half-open',
+        'half-open->open',
+        'open->half-open',
+        'half-open->closed',
+      ]);
+    });
+
+    it('should close on reset', () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+      breaker.recordFailure();
+      breaker.reset();
+      breaker.reset();
+      expect(breaker.state).toBe('closed');
+      expect(breaker.failures).toBe(0);
+    });
+  });
+
+  describe('retry behavior', () => {
+    it('should stop retrying once the circuit opens and fail fast afterwards', async () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 2,
+        resetTimeoutMs: 100,
+      });
+      const errorResolvers = [
+        circuitBreakerErrorResolver({
+          circuitBreaker: breaker,
+          resolver: delayErrorResolver({ configuration: { maxRetries: 5 } }),
+        }),
+      ];
+      let attempts = 0;
+      const operation = () => {
+        attempts++;
+        throw new Error('down');
+      };
+
+      const first = await advancedRetry({ operation, errorResolvers });
+      expect(first.success).toBe(false);
+      expect(first.error?.message).toBe('down');
+      expect(attempts).toBe(2);
+
+      const second = await advancedRetry({ operation, errorResolvers });
+      expect(second.success).toBe(false);
+      expect(second.error).toBeInstanceOf(CircuitOpenError);
+      expect(second.totalAttempts).toBe(0);
+      expect(attempts).toBe(2);
+    });
+
+    it('should recover through a half-open probe', async () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+      breaker.recordFailure();
+      now += 100;
+
+      const result = await advancedRetry({
+        operation: () => Promise.resolve('ok'),
+        errorResolvers: [
+          circuitBreakerErrorResolver({
+            circuitBreaker: breaker,
+            resolver: delayErrorResolver({ configuration: { maxRetries: 1 } }),
+          }),
+        ],
+      });
+      expect(result.success).toBe(true);
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should let calls through again after a probe hung past the overall timeout', async () => {
+      const clock = new VirtualClock();
+      const breaker = createCircuitBreaker(
+        { failureThreshold: 1, resetTimeoutMs: 1000 },
+        clock
+      );
+      const errorResolvers = [
+        circuitBreakerErrorResolver({
+          circuitBreaker: breaker,
+          resolver: delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        }),
+      ];
+      breaker.recordFailure();
+      await clock.advance(1000);
+
+      const hung = advancedRetry({
+        operation: () => new Promise<string>(() => {}),
+        errorResolvers,
+        overallTimeout: 500,
+        clock,
+      });
+      await clock.advance(500);
+      expect((await hung).failureReason).toBe('timeout');
+
+      const rejected = await advancedRetry({
+        operation: () => 'ok',
+        errorResolvers,
+        clock,
+      });
+      expect(rejected.error).toBeInstanceOf(CircuitOpenError);
+
+      await clock.advance(500);
+      const recovered = await advancedRetry({
+        operation: () => 'ok',
+        errorResolvers,
+        clock,
+      });
+      expect(recovered.success).toBe(true);
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should only count errors matching the filter as failures', async () => {
+      const breaker = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+      const result = await advancedRetry({
+        operation: () => {
+          throw { status: 404 };
+        },
+        errorResolvers: [
+          circuitBreakerErrorResolver({
+            circuitBreaker: breaker,
+            canHandleError: statusCodeErrorFilterRange(500, 599),
+            resolver: delayErrorResolver({ configuration: { maxRetries: 2 } }),
+          }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      expect(result.totalAttempts).toBe(3);
+      expect(breaker.state).toBe('closed');
+    });
+
+    it('should forward lifecycle hooks of the wrapped resolver', async () => {
+      const outer = createCircuitBreaker({
+        failureThreshold: 10,
+        resetTimeoutMs: 100,
+      });
+      const inner = createCircuitBreaker({
+        failureThreshold: 1,
+        resetTimeoutMs: 100,
+      });
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('down');
+        },
+        errorResolvers: [
+          circuitBreakerErrorResolver({
+            circuitBreaker: outer,
+            resolver: circuitBreakerErrorResolver({
+              circuitBreaker: inner,
+              resolver: customErrorResolver({
+                configuration: {},
+                callback: () => ({
+                  remainingAttempts: 1,
+                  unrecoverable: false,
+                }),
+              }),
+            }),
+          }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      expect(result.totalAttempts).toBe(1);
+      expect(inner.state).toBe('open');
+      expect(outer.failures).toBe(1);
+    });
+  });
+});
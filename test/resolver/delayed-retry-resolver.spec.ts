@@ -1,4 +1,8 @@
-import { advancedRetry, delayErrorResolver } from '../../src';
+import {
+  advancedRetry,
+  customErrorResolver,
+  delayErrorResolver,
+} from '../../src';
 
 describe('delayedRetryErrorResolver', () => {
   // Basic retry behavior
@@ -210,4 +214,92 @@ describe('delayedRetryErrorResolver', () => {
       expect(attempts).toBe(4); // Initial attempt + 3 retries
     });
   });
+
+  // The resolver returns the delay, advancedRetry waits for it
+  describe('waiting for the delay', () => {
+    it('should return the delay instead of waiting for it', async () => {
+      const resolver = delayErrorResolver({
+        configuration: { maxRetries: 3, initialDelayMs: 10000 },
+      });
+      const start = Date.now();
+      const resolution = await resolver({
+        error: new Error('test'),
+        attempt: 1,
+        retryContext: { data: undefined },
+      });
+
+      expect(resolution.delayMs).toBe(20000);
+      expect(resolution.remainingAttempts).toBe(2);
+      expect(Date.now() - start).toBeLessThan(1000);
+    });
+
+    it('should not return a negative delay', async () => {
+      const resolution = await delayErrorResolver({
+        configuration: { maxRetries: 3, customDelay: () => -500 },
+      })({ error: new Error('test'), attempt: 0, retryContext: {} });
+
+      expect(resolution.delayMs).toBe(0);
+    });
+
+    it('should wait for the delay before the next attempt', async () => {
+      const attemptTimes: number[] = [];
+      await advancedRetry({
+        operation: () => {
+          attemptTimes.push(Date.now());
+          throw new Error('test');
+        },
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 1, initialDelayMs: 50 },
+          }),
+        ],
+      });
+
+      expect(attemptTimes).toHaveLength(2);
+      expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should wait for the delay returned by a custom resolver', async () => {
+      const attemptTimes: number[] = [];
+      await advancedRetry({
+        operation: () => {
+          attemptTimes.push(Date.now());
+          throw new Error('test');
+        },
+        errorResolvers: [
+          customErrorResolver({
+            configuration: { maxRetries: 1 },
+            callback: (error, attempt, configuration) => ({
+              remainingAttempts: configuration.maxRetries - attempt,
+              unrecoverable: false,
+              delayMs: 50,
+            }),
+          }),
+        ],
+      });
+
+      expect(attemptTimes).toHaveLength(2);
+      expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should stop waiting for the delay when aborted', async () => {
+      const abortController = new AbortController();
+      setTimeout(() => abortController.abort(), 10);
+      const start = Date.now();
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 3, initialDelayMs: 10000 },
+          }),
+        ],
+        abortSignal: abortController.signal,
+      });
+
+      expect(result.success).toBe(false);
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+  });
 });
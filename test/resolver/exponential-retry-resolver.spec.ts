@@ -0,0 +1,170 @@
+import {
+  advancedRetry,
+  exponentialDelay,
+  exponentialErrorResolver,
+  RetryContext,
+} from '../../src';
+
+describe('exponentialErrorResolver', () => {
+  describe('exponentialDelay', () => {
+    it('should grow the delay exponentially without jitter', () => {
+      const configuration = { maxRetries: 5, initialDelayMs: 100 };
+      expect(exponentialDelay(configuration, 0)).toBe(100);
+      expect(exponentialDelay(configuration, 1)).toBe(200);
+      expect(exponentialDelay(configuration, 2)).toBe(400);
+      expect(exponentialDelay(configuration, 3)).toBe(800);
+    });
+
+    it('should respect a custom factor and maxDelayMs', () => {
+      const configuration = {
+        maxRetries: 5,
+        initialDelayMs: 100,
+        factor: 3,
+        maxDelayMs: 1000,
+      };
+      expect(exponentialDelay(configuration, 1)).toBe(300);
+      expect(exponentialDelay(configuration, 2)).toBe(900);
+      expect(exponentialDelay(configuration, 3)).toBe(1000);
+    });
+
+    it('should treat a negative initial delay as 0', () => {
+      expect(exponentialDelay({ maxRetries: 1, initialDelayMs: -100 }, 2)).toBe(
+        0
+      );
+    });
+
+    it('should apply full jitter', () => {
+      const configuration = {
+        maxRetries: 5,
+        initialDelayMs: 100,
+        jitter: 'full' as const,
+        random: () => 0.25,
+      };
+      expect(exponentialDelay(configuration, 2)).toBe(100);
+    });
+
+    it('should apply equal jitter', () => {
+      const configuration = {
+        maxRetries: 5,
+        initialDelayMs: 100,
+        jitter: 'equal' as const,
+        random: () => 0.5,
+      };
+      expect(exponentialDelay(configuration, 2)).toBe(300);
+    });
+
+    it('should apply decorrelated jitter based on the previous delay', () => {
+      const configuration = {
+        maxRetries: 5,
+        initialDelayMs: 100,
+        maxDelayMs: 1000,
+        jitter: 'decorrelated' as const,
+        random: () => 0.5,
+      };
+      expect(exponentialDelay(configuration, 0)).toBe(200);
+      expect(exponentialDelay(configuration, 1, 200)).toBe(350);
+      expect(exponentialDelay(configuration, 2, 900)).toBe(1000);
+    });
+
+    it('should default to Math.random', () => {
+      const delay = exponentialDelay(
+        { maxRetries: 1, initialDelayMs: 100, jitter: 'full' },
+        0
+      );
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(100);
+    });
+  });
+
+  describe('retry behavior', () => {
+    it('should retry the configured number of times', async () => {
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new Error('test');
+        },
+        errorResolvers: [
+          exponentialErrorResolver({
+            configuration: { maxRetries: 3, initialDelayMs: 1 },
+          }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      expect(attempts).toBe(4); // Initial attempt + 3 retries
+    });
+
+    it('should not retry when error resolver cannot handle the error', async () => {
+      let attempts = 0;
+      await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new Error('test');
+        },
+        errorResolvers: [
+          exponentialErrorResolver({
+            canHandleError: () => false,
+            configuration: { maxRetries: 3, initialDelayMs: 1 },
+          }),
+        ],
+      });
+      expect(attempts).toBe(1);
+    });
+
+    it('should chain decorrelated delays per operation', async () => {
+      const delays: (number | undefined)[] = [];
+      const resolver = exponentialErrorResolver({
+        configuration: {
+          maxRetries: 3,
+          initialDelayMs: 2,
+          jitter: 'decorrelated',
+          random: () => 0.5,
+        },
+      });
+
+      const run = async () => {
+        let context: RetryContext<unknown> = { data: undefined };
+        for (let attempt = 0; attempt < 2; attempt++) {
+          const resolution = await resolver({
+            error: new Error('test'),
+            attempt,
+            retryContext: context,
+          });
+          expect(resolution.remainingAttempts).toBe(3 - attempt);
+          delays.push(resolution.delayMs);
+          context = resolution.context;
+        }
+      };
+      await run();
+      await run();
+
+      expect(delays).toEqual([4, 7, 4, 7]);
+    });
+
+    it('should succeed after retrying with jitter', async () => {
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          if (attempts < 3) {
+            throw new Error('test');
+          }
+          return Promise.resolve('success');
+        },
+        errorResolvers: [
+          exponentialErrorResolver({
+            configuration: {
+              maxRetries: 3,
+              initialDelayMs: 5,
+              jitter: 'equal',
+              random: () => 0,
+            },
+          }),
+        ],
+      });
+      expect(result.success).toBe(true);
+      expect(result.result).toBe('success');
+      expect(result.totalAttemptsToSucceed).toBe(3);
+    });
+  });
+});
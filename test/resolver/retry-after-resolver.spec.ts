@@ -0,0 +1,196 @@
+import {
+  advancedRetry,
+  errorToRetryAfterMs,
+  retryAfterErrorResolver,
+  statusCodeErrorFilterAny,
+  VirtualClock,
+} from '../../src';
+import * as sleepModule from '../../src/utils/sleep';
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    public headers: Record<string, string>
+  ) {
+    super(`HTTP ${status}`);
+  }
+}
+
+describe('retryAfterErrorResolver', () => {
+  describe('errorToRetryAfterMs', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+
+    it('should read Retry-After in seconds', () => {
+      expect(errorToRetryAfterMs({ headers: { 'Retry-After': '2' } })).toBe(
+        2000
+      );
+      expect(errorToRetryAfterMs({ headers: { 'Retry-After': '0.5' } })).toBe(
+        500
+      );
+    });
+
+    it('should read Retry-After as HTTP-date', () => {
+      expect(
+        errorToRetryAfterMs(
+          { headers: { 'Retry-After': 'Wed, 01 Jan 2025 00:00:30 GMT' } },
+          now
+        )
+      ).toBe(30000);
+      expect(
+        errorToRetryAfterMs(
+          { headers: { 'Retry-After': 'Tue, 31 Dec 2024 23:59:00 GMT' } },
+          now
+        )
+      ).toBe(0);
+    });
+
+    it('should read RateLimit-Reset in seconds', () => {
+      expect(
+        errorToRetryAfterMs({
+          response: { headers: { 'RateLimit-Reset': '4' } },
+        })
+      ).toBe(4000);
+    });
+
+    it('should read X-RateLimit-Reset as seconds or unix timestamp', () => {
+      expect(
+        errorToRetryAfterMs({ headers: { 'X-RateLimit-Reset': '3' } }, now)
+      ).toBe(3000);
+      expect(
+        errorToRetryAfterMs(
+          { headers: { 'X-RateLimit-Reset': String(now / 1000 + 10) } },
+          now
+        )
+      ).toBe(10000);
+      expect(
+        errorToRetryAfterMs(
+          { headers: { 'X-RateLimit-Reset': String(now / 1000 - 10) } },
+          now
+        )
+      ).toBe(0);
+    });
+
+    it('should prefer Retry-After over the rate limit headers', () => {
+      expect(
+        errorToRetryAfterMs({
+          headers: { 'Retry-After': '1', 'RateLimit-Reset': '5' },
+        })
+      ).toBe(1000);
+    });
+
+    it('should ignore unparsable headers', () => {
+      expect(
+        errorToRetryAfterMs({
+          headers: {
+            'Retry-After': 'soon',
+            'RateLimit-Reset': 'later',
+            'X-RateLimit-Reset': 'never',
+          },
+        })
+      ).toBeNull();
+      expect(errorToRetryAfterMs(new Error('test'))).toBeNull();
+    });
+  });
+
+  describe('retry behavior', () => {
+    afterEach(() => jest.restoreAllMocks());
+
+    it('should compare HTTP dates with the given clock', async () => {
+      const clock = new VirtualClock(Date.parse('2025-01-01T00:00:00Z'));
+      const onRetryScheduled = jest.fn();
+      const promise = advancedRetry({
+        operation: jest
+          .fn()
+          .mockRejectedValueOnce(
+            new HttpError(503, {
+              'Retry-After': 'Wed, 01 Jan 2025 00:00:30 GMT',
+            })
+          )
+          .mockResolvedValue('success'),
+        errorResolvers: [
+          retryAfterErrorResolver({
+            configuration: { maxRetries: 1, maxDelayMs: 60000 },
+            clock,
+          }),
+        ],
+        onRetryScheduled,
+        clock,
+      });
+
+      await clock.advance(30000);
+      await expect(promise).resolves.toMatchObject({ result: 'success' });
+      expect(onRetryScheduled.mock.calls[0][0].delayMs).toBe(30000);
+    });
+
+    it('should wait the requested time, capped by maxDelayMs', async () => {
+      const sleep = jest
+        .spyOn(sleepModule, 'sleep')
+        .mockResolvedValue(undefined);
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          if (attempts === 1) throw new HttpError(429, { 'Retry-After': '2' });
+          if (attempts === 2) throw new HttpError(503, { 'Retry-After': '60' });
+          return Promise.resolve('success');
+        },
+        errorResolvers: [
+          retryAfterErrorResolver({
+            configuration: { maxRetries: 3, maxDelayMs: 10000 },
+            canHandleError: statusCodeErrorFilterAny([429, 503]),
+          }),
+        ],
+      });
+      expect(result.success).toBe(true);
+      expect(result.totalAttemptsToSucceed).toBe(3);
+      expect(sleep.mock.calls.map(c => c[0])).toEqual([2000, 10000]);
+    });
+
+    it('should not handle errors without header unless a default delay is set', async () => {
+      let attempts = 0;
+      await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new HttpError(429, {});
+        },
+        errorResolvers: [
+          retryAfterErrorResolver({
+            configuration: { maxRetries: 3, maxDelayMs: 10 },
+          }),
+        ],
+      });
+      expect(attempts).toBe(1);
+
+      attempts = 0;
+      await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new HttpError(429, {});
+        },
+        errorResolvers: [
+          retryAfterErrorResolver({
+            configuration: { maxRetries: 2, maxDelayMs: 10, defaultDelayMs: 1 },
+          }),
+        ],
+      });
+      expect(attempts).toBe(3);
+    });
+
+    it('should not retry when error resolver cannot handle the error', async () => {
+      let attempts = 0;
+      await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new HttpError(500, { 'Retry-After': '0' });
+        },
+        errorResolvers: [
+          retryAfterErrorResolver({
+            configuration: { maxRetries: 3, maxDelayMs: 10 },
+            canHandleError: statusCodeErrorFilterAny([429, 503]),
+          }),
+        ],
+      });
+      expect(attempts).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  advancedRetry,
+  createCircuitBreaker,
+  circuitBreakerErrorResolver,
+  createRetryBudget,
+  delayErrorResolver,
+  RetryBudgetExhaustedError,
+  retryBudgetErrorResolver,
+  VirtualClock,
+} from '../../src';
+
+describe('retryBudgetErrorResolver', () => {
+  let now = 0;
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('createRetryBudget', () => {
+    it('should use the given clock', async () => {
+      const clock = new VirtualClock();
+      const budget = createRetryBudget({ ratio: 1, windowMs: 1000 }, clock);
+      budget.recordRequest();
+      expect(budget.available).toBe(1);
+
+      await clock.advance(1000);
+      expect(budget.available).toBe(0);
+    });
+
+    it('should allow retries proportional to the requests', () => {
+      const budget = createRetryBudget({ ratio: 0.2, windowMs: 10000 });
+      expect(budget.available).toBe(0);
+      for (let i = 0; i < 10; i++) {
+        budget.recordRequest();
+      }
+      expect(budget.available).toBe(2);
+      expect(budget.tryAcquireRetry()).toBe(true);
+      expect(budget.tryAcquireRetry()).toBe(true);
+      expect(budget.tryAcquireRetry()).toBe(false);
+      expect(budget.available).toBe(0);
+    });
+
+    it('should always allow the minimum retries per window', () => {
+      const budget = createRetryBudget({
+        ratio: 0.1,
+        windowMs: 10000,
+        minRetriesPerWindow: 1,
+      });
+      expect(budget.tryAcquireRetry()).toBe(true);
+      expect(budget.tryAcquireRetry()).toBe(false);
+    });
+
+    it('should forget requests and retries outside of the window', () => {
+      const budget = createRetryBudget({ ratio: 0.5, windowMs: 1000 });
+      budget.recordRequest();
+      budget.recordRequest();
+      expect(budget.tryAcquireRetry()).toBe(true);
+      expect(budget.available).toBe(0);
+      now += 500;
+      budget.recordRequest();
+      budget.recordRequest();
+      expect(budget.available).toBe(1);
+      now += 500;
+      expect(budget.available).toBe(1);
+      now += 500;
+      expect(budget.available).toBe(0);
+    });
+  });
+
+  describe('retry behavior', () => {
+    it('should fail with a RetryBudgetExhaustedError once the budget is used up', async () => {
+      const budget = createRetryBudget({ ratio: 0.5, windowMs: 10000 });
+      const errorResolvers = [
+        retryBudgetErrorResolver({
+          retryBudget: budget,
+          resolver: delayErrorResolver({ configuration: { maxRetries: 5 } }),
+        }),
+      ];
+      budget.recordRequest();
+      budget.recordRequest();
+      budget.recordRequest();
+
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new Error('down');
+        },
+        errorResolvers,
+      });
+      // 4 requests allow 2 retries
+      expect(attempts).toBe(3);
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(RetryBudgetExhaustedError);
+      expect((result.error as RetryBudgetExhaustedError).cause).toEqual(
+        new Error('down')
+      );
+    });
+
+    it('should not take from the budget if no retry is granted', async () => {
+      const budget = createRetryBudget({
+        ratio: 0,
+        windowMs: 10000,
+        minRetriesPerWindow: 1,
+      });
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('down');
+        },
+        errorResolvers: [
+          retryBudgetErrorResolver({
+            retryBudget: budget,
+            resolver: delayErrorResolver({
+              configuration: { maxRetries: 0 },
+            }),
+          }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('down');
+      expect(budget.available).toBe(1);
+    });
+
+    it('should forward lifecycle hooks of the wrapped resolver', async () => {
+      const budget = createRetryBudget({
+        ratio: 1,
+        windowMs: 10000,
+      });
+      const breaker = createCircuitBreaker({
+        failureThreshold: 2,
+        resetTimeoutMs: 100,
+      });
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('down');
+        },
+        errorResolvers: [
+          retryBudgetErrorResolver({
+            retryBudget: budget,
+            resolver: circuitBreakerErrorResolver({
+              circuitBreaker: breaker,
+              resolver: delayErrorResolver({
+                configuration: { maxRetries: 5 },
+              }),
+            }),
+          }),
+        ],
+      });
+      expect(result.success).toBe(false);
+      expect(result.totalAttempts).toBe(2);
+      expect(breaker.state).toBe('open');
+    });
+  });
+});
@@ -4,6 +4,11 @@ import {
   delayErrorResolver,
   advancedRetry,
   advancedRetryAll,
+  AttemptTimeoutError,
+  RejectedResultError,
+  RetryAbortedError,
+  statusCodeErrorFilterAny,
+  RetryExhaustedError,
 } from '../src';
 
 describe('executeWithRetry', () => {
@@ -238,6 +243,281 @@ describe('executeWithRetry', () => {
     });
   });
 
+  describe('attempt timeout', () => {
+    it('should abort a hung attempt and retry it', async () => {
+      const signals: AbortSignal[] = [];
+      const result = await advancedRetry({
+        operation: (_, signal) => {
+          signals.push(signal as AbortSignal);
+          if (signals.length === 1) {
+            return new Promise<string>(() => {});
+          }
+          return 'success';
+        },
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 2 } }),
+        ],
+        attemptTimeout: 10,
+        overallTimeout: 1000,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe('success');
+      expect(result.totalAttempts).toBe(2);
+      expect(result.attempts[0].error).toBeInstanceOf(AttemptTimeoutError);
+      expect(signals[0].aborted).toBe(true);
+      expect(signals[0].reason).toBe(result.attempts[0].error);
+      expect(signals[1].aborted).toBe(false);
+    });
+
+    it('should pass the timeout error to the resolvers', async () => {
+      const errors: unknown[] = [];
+      const result = await advancedRetry({
+        operation: () => new Promise(() => {}),
+        errorResolvers: [
+          customErrorResolver({
+            configuration: {},
+            callback: error => {
+              errors.push(error);
+              return { remainingAttempts: 0, unrecoverable: true };
+            },
+          }),
+        ],
+        attemptTimeout: 10,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('unrecoverable');
+      expect(result.error).toBeInstanceOf(AttemptTimeoutError);
+      expect((result.error as AttemptTimeoutError).timeoutMs).toBe(10);
+      expect(errors).toEqual([result.error]);
+    });
+
+    it('should not time out attempts finishing in time', async () => {
+      const result = await advancedRetry({
+        operation: async () => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return 'success';
+        },
+        attemptTimeout: 100,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe('success');
+    });
+
+    it('should forward the overall abort to the attempt signal', async () => {
+      const abortController = new AbortController();
+      let attemptSignal: AbortSignal | undefined;
+      const promise = advancedRetry({
+        operation: (_, signal) => {
+          attemptSignal = signal;
+          return new Promise((_, reject) =>
+            signal?.addEventListener('abort', () => reject(signal.reason))
+          );
+        },
+        attemptTimeout: 1000,
+        abortSignal: abortController.signal,
+      });
+      abortController.abort('stop');
+
+      const result = await promise;
+      expect(result.failureReason).toBe('aborted');
+      expect(attemptSignal?.reason).toBe('stop');
+    });
+
+    it('should still be bounded by the overall timeout', async () => {
+      const result = await advancedRetry({
+        operation: () => new Promise(() => {}),
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 100 } }),
+        ],
+        attemptTimeout: 10,
+        overallTimeout: 50,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('timeout');
+      expect(result.attempts.length).toBeGreaterThan(1);
+    });
+  });
+
+  describe('result filtering', () => {
+    it('should retry rejected results until one is accepted', async () => {
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          return { status: attempts < 3 ? 'pending' : 'done' };
+        },
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 5 } }),
+        ],
+        shouldRetryResult: r => r.status === 'pending',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toEqual({ status: 'done' });
+      expect(result.totalAttempts).toBe(3);
+      expect(result.rejectedResult).toBeUndefined();
+      expect(result.attempts[0].error).toBeInstanceOf(RejectedResultError);
+      expect((result.attempts[0].error as RejectedResultError).result).toEqual({
+        status: 'pending',
+      });
+    });
+
+    it('should return the last rejected result when exhausted', async () => {
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => ({ status: 'pending', attempt: ++attempts }),
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 2 } }),
+        ],
+        shouldRetryResult: { shouldRetryResult: r => r.status === 'pending' },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('exhausted');
+      expect(result.result).toBeUndefined();
+      expect(result.error).toBeInstanceOf(RejectedResultError);
+      expect(result.rejectedResult).toEqual({ status: 'pending', attempt: 3 });
+    });
+
+    it('should pass the attempt and context to the filter', async () => {
+      const filter = jest.fn(() => false);
+      await advancedRetry({ operation: () => 1, shouldRetryResult: filter });
+      expect(filter).toHaveBeenCalledWith(1, 0, { data: undefined });
+    });
+
+    it('should let error filters handle rejected responses', async () => {
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          return { ok: attempts > 1, status: attempts > 1 ? 200 : 503 };
+        },
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 2 },
+            canHandleError: statusCodeErrorFilterAny([503]),
+          }),
+          delayErrorResolver({ configuration: { maxRetries: 0 } }),
+        ],
+        shouldRetryResult: response => !response.ok,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.totalAttempts).toBe(2);
+    });
+
+    it('should return the rejected result if the operation times out', async () => {
+      const result = await advancedRetry({
+        operation: () => 'pending',
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 10, initialDelayMs: 100 },
+          }),
+        ],
+        shouldRetryResult: r => r === 'pending',
+        overallTimeout: 20,
+      });
+
+      expect(result.failureReason).toBe('timeout');
+      expect(result.rejectedResult).toBe('pending');
+    });
+  });
+
+  describe('fallback', () => {
+    it('should return the fallback value once the resolvers gave up', async () => {
+      const fallback = jest.fn(() => 'cached');
+      const onGiveUp = jest.fn();
+      const onSuccess = jest.fn();
+      const result = await advancedRetry({
+        operation: () => Promise.reject(new Error('down')),
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        ],
+        fallback,
+        onGiveUp,
+        onSuccess,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.result).toBe('cached');
+      expect(result.fromFallback).toBe(true);
+      expect(result.error?.message).toBe('down');
+      expect(result.failureReason).toBe('exhausted');
+      expect(result.totalAttempts).toBe(2);
+      expect(result.totalAttemptsToSucceed).toBeUndefined();
+      expect(fallback).toHaveBeenCalledWith({
+        error: result.error,
+        attempts: result.attempts,
+        failureReason: 'exhausted',
+      });
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+      expect(onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should not be called on success', async () => {
+      const fallback = jest.fn();
+      const result = await advancedRetry({ operation: () => 1, fallback });
+
+      expect(result.result).toBe(1);
+      expect(result.fromFallback).toBeUndefined();
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should be used on timeouts and instead of throwing', async () => {
+      const result = await advancedRetry({
+        operation: () => new Promise(resolve => setTimeout(resolve, 100)),
+        overallTimeout: 10,
+        throwOnUnrecoveredError: true,
+        fallback: async ({ failureReason }) => `fallback ${failureReason}`,
+      });
+
+      expect(result.result).toBe('fallback timeout');
+      expect(result.fromFallback).toBe(true);
+      expect(result.totalAttempts).toBeUndefined();
+    });
+
+    it('should not be used when aborted', async () => {
+      const fallback = jest.fn();
+      const result = await advancedRetry({
+        operation: () => 1,
+        abortSignal: AbortSignal.abort(),
+        fallback,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.failureReason).toBe('aborted');
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should report the error of a failing fallback', async () => {
+      const result = await advancedRetry({
+        operation: () => Promise.reject(new Error('down')),
+        fallback: () => {
+          throw new Error('no cache');
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('no cache');
+      expect(result.failureReason).toBe('exhausted');
+      expect(result.fromFallback).toBeUndefined();
+
+      const error = await advancedRetry({
+        operation: () => Promise.reject(new Error('down')),
+        fallback: () => Promise.reject(new Error('no cache')),
+        throwOnUnrecoveredError: true,
+        retryExhaustedError: true,
+      }).catch(e => e);
+      expect(error).toBeInstanceOf(RetryExhaustedError);
+      expect(error.cause.message).toBe('no cache');
+      expect(error.errors.map((e: Error) => e.message)).toEqual(['down']);
+    });
+  });
+
   // Abort signal handling
   describe('abort signal handling', () => {
     it('should abort ongoing operation when signal is triggered', async () => {
@@ -516,6 +796,417 @@ describe('executeWithRetry', () => {
     });
   });
 
+  // Lifecycle hooks
+  describe('lifecycle hooks', () => {
+    it('should call the hooks in order with attempt, error and context', async () => {
+      const events: string[] = [];
+      let attempts = 0;
+      const result = await advancedRetry<string, string>({
+        operation: () => {
+          attempts++;
+          if (attempts < 4) {
+            throw new Error(`error ${attempts}`);
+          }
+          return Promise.resolve('success');
+        },
+        errorResolvers: [
+          customErrorResolver<{ maxRetries: number }, string>({
+            configuration: { maxRetries: 1 },
+            callback: (error, attempt, configuration) => ({
+              remainingAttempts: configuration.maxRetries - attempt,
+              unrecoverable: false,
+              context: 'first',
+              delayMs: 5,
+            }),
+          }),
+          delayErrorResolver({ configuration: { maxRetries: 3 } }),
+          delayErrorResolver({ configuration: { maxRetries: 3 } }),
+        ],
+        onAttemptStart: e =>
+          events.push(`start ${e.attempt} ${e.retryContext.data}`),
+        onAttemptError: e =>
+          events.push(`error ${e.attempt} ${(e.error as Error).message}`),
+        onRetryScheduled: e =>
+          events.push(`scheduled ${e.attempt} ${e.resolverIndex} ${e.delayMs}`),
+        onResolverExhausted: e =>
+          events.push(`exhausted ${e.attempt} ${e.resolverIndex}`),
+        onSuccess: e => {
+          expect(e.elapsedMs).toBeGreaterThanOrEqual(0);
+          expect(e.error).toBeUndefined();
+          events.push(`success ${e.attempt} ${e.result}`);
+        },
+        onGiveUp: () => events.push('give up'),
+      });
+
+      expect(result.success).toBe(true);
+      expect(events).toEqual([
+        'start 1 undefined',
+        'error 1 error 1',
+        'scheduled 1 0 5',
+        'start 2 first',
+        'error 2 error 2',
+        'exhausted 2 0',
+        'scheduled 2 0 5',
+        'start 3 undefined',
+        'error 3 error 3',
+        'scheduled 3 1 0',
+        'start 4 undefined',
+        'success 4 success',
+      ]);
+    });
+
+    it('should call onGiveUp once when the resolvers are exhausted', async () => {
+      const onGiveUp = jest.fn();
+      const onSuccess = jest.fn();
+      await expect(
+        advancedRetry({
+          operation: () => {
+            throw new Error('test');
+          },
+          errorResolvers: [
+            delayErrorResolver({ configuration: { maxRetries: 1 } }),
+          ],
+          throwOnUnrecoveredError: true,
+          onGiveUp,
+          onSuccess,
+        })
+      ).rejects.toThrow('test');
+
+      expect(onSuccess).not.toHaveBeenCalled();
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+      expect(onGiveUp.mock.calls[0][0]).toMatchObject({
+        attempt: 2,
+        error: new Error('test'),
+        failureReason: 'exhausted',
+      });
+    });
+
+    it('should call onGiveUp when the operation times out', async () => {
+      const onGiveUp = jest.fn();
+      const result = await advancedRetry({
+        operation: () => new Promise(resolve => setTimeout(resolve, 100)),
+        overallTimeout: 10,
+        onGiveUp,
+      });
+
+      expect(result.success).toBe(false);
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+      expect(onGiveUp.mock.calls[0][0]).toMatchObject({
+        attempt: 1,
+        error: new Error('Operation timed out'),
+        failureReason: 'timeout',
+      });
+    });
+
+    it('should not call hooks once the operation timed out', async () => {
+      const events: string[] = [];
+      const afterAttempt = jest.fn();
+      const resolver = Object.assign(
+        jest.fn(async () => ({
+          remainingAttempts: 1,
+          unrecoverable: false,
+          context: { data: undefined },
+        })),
+        { afterAttempt }
+      );
+      const run = (operation: () => Promise<string>) =>
+        advancedRetry({
+          operation,
+          errorResolvers: [resolver],
+          overallTimeout: 10,
+          onAttemptError: () => events.push('attempt error'),
+          onRetryScheduled: () => events.push('scheduled'),
+          onSuccess: () => events.push('success'),
+          onGiveUp: e => events.push(`give up ${e.failureReason}`),
+          finallyCallback: () => events.push('finally'),
+        });
+
+      const failed = await run(
+        () =>
+          new Promise((_, reject) =>
+            setTimeout(() => reject(new Error('late')), 30)
+          )
+      );
+      const succeeded = await run(
+        () => new Promise(resolve => setTimeout(() => resolve('late'), 30))
+      );
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(events).toEqual([
+        'give up timeout',
+        'finally',
+        'give up timeout',
+        'finally',
+      ]);
+      expect(afterAttempt).not.toHaveBeenCalled();
+      expect(resolver).not.toHaveBeenCalled();
+      expect(failed.attempts[0].error).toBeUndefined();
+      expect(succeeded.attempts[0].error).toBeUndefined();
+    });
+
+    it('should not call hooks once the operation timed out while resolving', async () => {
+      const onRetryScheduled = jest.fn();
+      const onAttemptStart = jest.fn();
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          async () => {
+            await new Promise(resolve => setTimeout(resolve, 30));
+            return {
+              remainingAttempts: 1,
+              unrecoverable: false,
+              context: { data: undefined },
+            };
+          },
+        ],
+        overallTimeout: 10,
+        onAttemptStart,
+        onRetryScheduled,
+      });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(result.failureReason).toBe('timeout');
+      expect(result.attempts[0].resolverIndex).toBeUndefined();
+      expect(onRetryScheduled).not.toHaveBeenCalled();
+      expect(onAttemptStart).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for the delay when aborted', async () => {
+      const abortController = new AbortController();
+      let attempts = 0;
+      const start = Date.now();
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          throw new Error('test');
+        },
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 3, initialDelayMs: 10000 },
+          }),
+        ],
+        abortSignal: abortController.signal,
+        onRetryScheduled: () => abortController.abort(),
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Operation aborted');
+      expect(attempts).toBe(1);
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+    describe('hooks that throw', () => {
+      const throwing = () => {
+        throw new Error('hook failed');
+      };
+
+      it('should keep the result if onSuccess throws', async () => {
+        const fallback = jest.fn();
+        const result = await advancedRetry({
+          operation: () => 'ok',
+          onSuccess: throwing,
+          fallback,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.result).toBe('ok');
+        expect(result.failureReason).toBeUndefined();
+        expect(fallback).not.toHaveBeenCalled();
+      });
+
+      it('should still run the attempt if onAttemptStart throws', async () => {
+        let calls = 0;
+        const result = await advancedRetry({
+          operation: () => {
+            calls++;
+            if (calls < 2) {
+              throw new Error('test');
+            }
+            return 'ok';
+          },
+          errorResolvers: [
+            delayErrorResolver({ configuration: { maxRetries: 3 } }),
+          ],
+          onAttemptStart: throwing,
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.totalAttempts).toBe(2);
+        expect(calls).toBe(2);
+        expect(result.attempts.map(a => (a.error as Error)?.message)).toEqual([
+          'test',
+          undefined,
+        ]);
+      });
+
+      it('should not reject if onGiveUp throws', async () => {
+        const result = await advancedRetry({
+          operation: () => {
+            throw new Error('test');
+          },
+          onGiveUp: throwing,
+        });
+
+        expect(result.success).toBe(false);
+        expect(result.error?.message).toBe('test');
+        expect(result.failureReason).toBe('exhausted');
+      });
+
+      it('should ignore errors of the hooks between the attempts', async () => {
+        const result = await advancedRetry({
+          operation: () => {
+            throw new Error('test');
+          },
+          errorResolvers: [
+            delayErrorResolver({ configuration: { maxRetries: 1 } }),
+            delayErrorResolver({ configuration: { maxRetries: 1 } }),
+          ],
+          onAttemptError: throwing,
+          onRetryScheduled: throwing,
+          onResolverExhausted: throwing,
+        });
+
+        expect(result.error?.message).toBe('test');
+        expect(result.failureReason).toBe('exhausted');
+        expect(result.totalAttempts).toBe(2);
+      });
+    });
+
+    it('should report a delay of 0 if the resolver chose none', async () => {
+      const delays: number[] = [];
+      const onGiveUp = jest.fn();
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          customErrorResolver({
+            configuration: { maxRetries: 2 },
+            callback: (error, attempt, configuration) => ({
+              remainingAttempts: configuration.maxRetries - attempt,
+              unrecoverable: false,
+            }),
+          }),
+        ],
+        onRetryScheduled: e => delays.push(e.delayMs),
+        onGiveUp,
+      });
+
+      expect(result.success).toBe(false);
+      expect(delays).toEqual([0, 0]);
+      expect(onGiveUp).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop waiting for the delay when aborted while waiting', async () => {
+      const abortController = new AbortController();
+      const start = Date.now();
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 3, initialDelayMs: 10000 },
+          }),
+        ],
+        abortSignal: abortController.signal,
+        onRetryScheduled: () => {
+          setTimeout(() => abortController.abort(), 10);
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toBe('Operation aborted');
+      expect(Date.now() - start).toBeLessThan(5000);
+    });
+  });
+
+  // Attempt history
+  describe('attempt history', () => {
+    it('should record every attempt with its error and resolution', async () => {
+      let attempts = 0;
+      const result = await advancedRetry({
+        operation: () => {
+          attempts++;
+          if (attempts < 3) {
+            throw new Error(`error ${attempts}`);
+          }
+          return Promise.resolve('success');
+        },
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 3, initialDelayMs: 5 },
+          }),
+        ],
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toHaveLength(3);
+      expect(result.attempts[0]).toMatchObject({
+        error: new Error('error 1'),
+        resolverIndex: 0,
+        remainingAttempts: 3,
+        unrecoverable: false,
+        delayMs: 5,
+      });
+      expect(result.attempts[1]).toMatchObject({
+        error: new Error('error 2'),
+        resolverIndex: 0,
+        remainingAttempts: 2,
+        delayMs: 10,
+      });
+      expect(result.attempts[2].error).toBeUndefined();
+      expect(result.attempts[2].resolverIndex).toBeUndefined();
+      result.attempts.forEach((a, i) => {
+        expect(a.durationMs).toBeGreaterThanOrEqual(0);
+        if (i > 0) {
+          expect(a.startTime).toBeGreaterThanOrEqual(
+            result.attempts[i - 1].startTime
+          );
+        }
+      });
+    });
+
+    it('should record the last attempt without a resolution when giving up', async () => {
+      const result = await advancedRetry({
+        operation: () => {
+          throw new Error('test');
+        },
+        errorResolvers: [
+          customErrorResolver({
+            configuration: {},
+            callback: () => ({ remainingAttempts: 0, unrecoverable: true }),
+          }),
+        ],
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toEqual([
+        {
+          startTime: expect.any(Number),
+          durationMs: expect.any(Number),
+          error: new Error('test'),
+          resolverIndex: 0,
+          remainingAttempts: 0,
+          unrecoverable: true,
+        },
+      ]);
+    });
+
+    it('should include the running attempt when the operation times out', async () => {
+      const result = await advancedRetry({
+        operation: () => new Promise(resolve => setTimeout(resolve, 100)),
+        overallTimeout: 20,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.attempts).toHaveLength(1);
+      expect(result.attempts[0].durationMs).toBeGreaterThanOrEqual(15);
+      expect(result.attempts[0].error).toBeUndefined();
+    });
+  });
+
   // Multiple operations (executeWithRetryAll)
   describe('executeWithRetryAll', () => {
     it('should handle multiple operations with different results', async () => {
@@ -569,5 +1260,250 @@ describe('executeWithRetry', () => {
       expect(successAttempts).toBe(3);
       expect(errorCount).toBe(6); // Attempted max retries
     });
+
+    it('should limit the number of concurrent operations', async () => {
+      let concurrent = 0;
+      let maxSeen = 0;
+      const operations = Array.from({ length: 10 }, (_, i) => async () => {
+        concurrent++;
+        maxSeen = Math.max(maxSeen, concurrent);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        concurrent--;
+        return i;
+      });
+
+      const results = await advancedRetryAll({ operations, concurrency: 3 });
+
+      expect(results.map(r => r.result)).toEqual([
+        0, 1, 2, 3, 4, 5, 6, 7, 8, 9,
+      ]);
+      expect(maxSeen).toBe(3);
+    });
+
+    it('should hold a slot during retries', async () => {
+      const started: string[] = [];
+      let failures = 0;
+      const results = await advancedRetryAll({
+        operations: [
+          async () => {
+            started.push('first');
+            if (failures++ < 2) {
+              throw new Error('temporary failure');
+            }
+            return 'first';
+          },
+          async () => {
+            started.push('second');
+            return 'second';
+          },
+        ],
+        errorResolvers: [
+          delayErrorResolver({
+            configuration: { maxRetries: 2, initialDelayMs: 5 },
+          }),
+        ],
+        concurrency: 1,
+      });
+
+      expect(results.map(r => r.result)).toEqual(['first', 'second']);
+      expect(started).toEqual(['first', 'first', 'first', 'second']);
+    });
+
+    it('should accept iterables and async iterables', async () => {
+      function* generate() {
+        for (let i = 0; i < 3; i++) {
+          yield () => Promise.resolve(i);
+        }
+      }
+      async function* generateAsync() {
+        for (let i = 0; i < 3; i++) {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          yield () => Promise.resolve(`${i}`);
+        }
+      }
+
+      const results = await advancedRetryAll({
+        operations: generate(),
+        concurrency: 2,
+      });
+      const asyncResults = await advancedRetryAll({
+        operations: generateAsync(),
+      });
+
+      expect(results.map(r => r.result)).toEqual([0, 1, 2]);
+      expect(asyncResults.map(r => r.result)).toEqual(['0', '1', '2']);
+    });
+
+    it('should abort the other operations with failFast', async () => {
+      const signals: AbortSignal[] = [];
+      const notStarted = jest.fn();
+      const results = await advancedRetryAll({
+        operations: [
+          (_?: unknown, signal?: AbortSignal) => {
+            signals.push(signal as AbortSignal);
+            return new Promise((_, reject) =>
+              signal?.addEventListener('abort', () => reject(signal.reason))
+            );
+          },
+          () => Promise.reject(new Error('failed')),
+          notStarted,
+        ],
+        concurrency: 2,
+        failFast: true,
+      });
+
+      expect(results.map(r => r.failureReason)).toEqual([
+        'aborted',
+        'exhausted',
+        'aborted',
+      ]);
+      expect(results[0].error).toBeInstanceOf(RetryAbortedError);
+      expect((results[0].error as RetryAbortedError).cause).toBe(
+        results[1].error
+      );
+      expect(signals[0].aborted).toBe(true);
+      expect(notStarted).not.toHaveBeenCalled();
+    });
+
+    it('should keep running the other operations without failFast', async () => {
+      const results = await advancedRetryAll({
+        operations: [
+          () => new Promise(resolve => setTimeout(() => resolve('slow'), 10)),
+          () => Promise.reject(new Error('failed')),
+        ],
+      });
+
+      expect(results[0].result).toBe('slow');
+      expect(results[1].success).toBe(false);
+    });
+
+    it('should abort all operations with the abort signal', async () => {
+      const abortController = new AbortController();
+      const resultsPromise = advancedRetryAll({
+        operations: [
+          () => new Promise(resolve => setTimeout(resolve, 100)),
+          () => new Promise(resolve => setTimeout(resolve, 100)),
+        ],
+        abortSignal: abortController.signal,
+      });
+      abortController.abort();
+
+      const results = await resultsPromise;
+      expect(results.map(r => r.failureReason)).toEqual(['aborted', 'aborted']);
+    });
+
+    it('should abort the operations if the iterable fails', async () => {
+      const signals: AbortSignal[] = [];
+      async function* generate() {
+        yield (_?: unknown, signal?: AbortSignal) => {
+          signals.push(signal as AbortSignal);
+          return new Promise(resolve => setTimeout(resolve, 100));
+        };
+        throw new Error('iterable failed');
+      }
+
+      await expect(
+        advancedRetryAll({ operations: generate() })
+      ).rejects.toThrow('iterable failed');
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    it('should stop taking operations from an iterable once aborted', async () => {
+      let taken = 0;
+      let closed = false;
+      async function* generate() {
+        try {
+          for (;;) {
+            taken++;
+            yield () => Promise.reject(new Error('failed'));
+          }
+        } finally {
+          closed = true;
+        }
+      }
+
+      const results = await advancedRetryAll({
+        operations: generate(),
+        concurrency: 1,
+        failFast: true,
+      });
+
+      expect(results.map(r => r.failureReason)).toEqual([
+        'exhausted',
+        'aborted',
+      ]);
+      expect(taken).toBe(2);
+      expect(closed).toBe(true);
+    });
+
+    it('should stop taking operations from an iterable on abort', async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+      function* generate() {
+        for (;;) {
+          yield () => Promise.resolve('never');
+        }
+      }
+
+      const results = await advancedRetryAll({
+        operations: generate(),
+        abortSignal: abortController.signal,
+      });
+
+      expect(results.map(r => r.failureReason)).toEqual(['aborted']);
+    });
+
+    it('should remove the abort listeners of every operation', async () => {
+      const listeners = new Map<AbortSignal, Set<EventListener>>();
+
+      // Track the listeners per signal, a listener removed from another signal stays
+      const originalAddEventListener = AbortSignal.prototype.addEventListener;
+      AbortSignal.prototype.addEventListener = function (
+        this: AbortSignal,
+        type: string,
+        listener: EventListener
+      ): void {
+        listeners.set(this, (listeners.get(this) ?? new Set()).add(listener));
+        originalAddEventListener.call(this, type, listener);
+      };
+      const originalRemoveEventListener =
+        AbortSignal.prototype.removeEventListener;
+      AbortSignal.prototype.removeEventListener = function (
+        this: AbortSignal,
+        type: string,
+        listener: EventListener
+      ): void {
+        listeners.get(this)?.delete(listener);
+        originalRemoveEventListener.call(this, type, listener);
+      };
+
+      try {
+        const results = await advancedRetryAll({
+          operations: Array.from({ length: 50 }, (_, i) => () => i),
+          concurrency: 5,
+          abortSignal: new AbortController().signal,
+        });
+
+        expect(results.every(r => r.success)).toBe(true);
+        expect([...listeners.values()].filter(l => l.size > 0)).toEqual([]);
+      } finally {
+        AbortSignal.prototype.addEventListener = originalAddEventListener;
+        AbortSignal.prototype.removeEventListener = originalRemoveEventListener;
+      }
+    });
+
+    it('should reject a concurrency that is not an integer of at least 1', async () => {
+      const operation = jest.fn();
+      for (const concurrency of [0, -1, 1.5, NaN]) {
+        await expect(
+          advancedRetryAll({ operations: [operation], concurrency })
+        ).rejects.toThrow(
+          new RangeError(
+            `concurrency must be an integer of at least 1, got ${concurrency}`
+          )
+        );
+      }
+      expect(operation).not.toHaveBeenCalled();
+    });
   });
 });
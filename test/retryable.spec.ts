@@ -0,0 +1,73 @@
+import { delayErrorResolver, retryable, RetryExhaustedError } from '../src';
+
+describe('retryable', () => {
+  it('should pass the arguments and retry failed calls', async () => {
+    let calls = 0;
+    const add = retryable(
+      async (a: number, b: number) => {
+        if (++calls === 1) {
+          throw new Error('flaky');
+        }
+        return a + b;
+      },
+      {
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 2 } }),
+        ],
+      }
+    );
+
+    await expect(add(1, 2)).resolves.toBe(3);
+    expect(calls).toBe(2);
+  });
+
+  it('should share the options between calls', async () => {
+    const onAttemptStart = jest.fn();
+    const double = retryable((n: number) => n * 2, { onAttemptStart });
+
+    await expect(double(1)).resolves.toBe(2);
+    await expect(double(2)).resolves.toBe(4);
+    expect(onAttemptStart).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject with the error if the call failed to recover', async () => {
+    const fail = retryable(
+      (): Promise<void> => Promise.reject(new Error('down')),
+      {
+        errorResolvers: [
+          delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        ],
+      }
+    );
+
+    await expect(fail()).rejects.toThrow('down');
+  });
+
+  it('should honour retryExhaustedError', async () => {
+    const fail = retryable(
+      (): void => {
+        throw new Error('down');
+      },
+      { retryExhaustedError: true }
+    );
+
+    await expect(fail()).rejects.toBeInstanceOf(RetryExhaustedError);
+  });
+
+  it('should keep this when wrapping a method', async () => {
+    class Client {
+      constructor(private readonly baseUrl: string) {}
+
+      async get(path: string) {
+        return `${this.baseUrl}${path}`;
+      }
+
+      retryingGet = retryable(Client.prototype.get);
+    }
+
+    const client = new Client('https://api.example.com');
+    await expect(client.retryingGet('/data')).resolves.toBe(
+      'https://api.example.com/data'
+    );
+  });
+});
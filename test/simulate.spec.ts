@@ -0,0 +1,270 @@
+import {
+  circuitBreakerErrorResolver,
+  createCircuitBreaker,
+  customErrorResolver,
+  delayErrorResolver,
+  explainPolicySimulation,
+  RetryPolicy,
+  serverErrorErrorFilter,
+  simulatePolicy,
+  statusCodeErrorFilterAny,
+} from '../src';
+
+const http = (status: number) => ({ status, message: `HTTP ${status}` });
+
+describe('simulatePolicy', () => {
+  const errorResolvers = () => [
+    delayErrorResolver({
+      configuration: { maxRetries: 2, initialDelayMs: 100 },
+      canHandleError: statusCodeErrorFilterAny([503]),
+    }),
+    delayErrorResolver({
+      configuration: { maxRetries: 1, initialDelayMs: 10 },
+      canHandleError: statusCodeErrorFilterAny([429]),
+    }),
+    delayErrorResolver({
+      configuration: { maxRetries: 1, initialDelayMs: 1000 },
+    }),
+  ];
+
+  it('should walk through the resolver chain without sleeping', async () => {
+    const start = Date.now();
+    const simulation = await simulatePolicy(errorResolvers(), [
+      http(503),
+      http(503),
+      http(503),
+      http(429),
+    ]);
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(simulation).toEqual({
+      decisions: [
+        {
+          attempt: 1,
+          error: http(503),
+          resolverIndex: 0,
+          decision: 'retry',
+          delayMs: 100,
+          remainingAttempts: 2,
+          elapsedMs: 0,
+        },
+        {
+          attempt: 2,
+          error: http(503),
+          resolverIndex: 0,
+          decision: 'retry',
+          delayMs: 200,
+          remainingAttempts: 1,
+          elapsedMs: 100,
+        },
+        {
+          attempt: 3,
+          error: http(503),
+          resolverIndex: 0,
+          decision: 'passOn',
+          delayMs: 300,
+          remainingAttempts: 0,
+          elapsedMs: 300,
+        },
+        {
+          attempt: 4,
+          error: http(429),
+          resolverIndex: 1,
+          decision: 'retry',
+          delayMs: 10,
+          remainingAttempts: 1,
+          elapsedMs: 600,
+        },
+      ],
+      success: true,
+      totalAttempts: 5,
+      totalDelayMs: 610,
+      failureReason: undefined,
+      error: undefined,
+    });
+  });
+
+  it('should show when the chain gives up', async () => {
+    const simulation = await simulatePolicy(errorResolvers(), [
+      http(500),
+      http(500),
+      http(500),
+    ]);
+
+    expect(simulation.success).toBe(false);
+    expect(simulation.failureReason).toBe('exhausted');
+    expect(simulation.error).toEqual(http(500));
+    expect(simulation.totalAttempts).toBe(2);
+    // Resolver 1 takes over from the second attempt, the last resolver is never called
+    expect(simulation.decisions).toEqual([
+      expect.objectContaining({
+        resolverIndex: 0,
+        decision: 'passOn',
+        remainingAttempts: -1,
+      }),
+      expect.objectContaining({
+        resolverIndex: 1,
+        decision: 'exhausted',
+        remainingAttempts: -1,
+      }),
+    ]);
+  });
+
+  it('should show unrecoverable errors', async () => {
+    const simulation = await simulatePolicy(
+      [
+        customErrorResolver({
+          configuration: {},
+          canHandleError: error => error === 'fatal',
+          callback: () => ({ remainingAttempts: 0, unrecoverable: true }),
+        }),
+      ],
+      ['fatal']
+    );
+
+    expect(simulation.failureReason).toBe('unrecoverable');
+    expect(simulation.decisions).toEqual([
+      expect.objectContaining({ resolverIndex: 0, decision: 'unrecoverable' }),
+    ]);
+  });
+
+  it('should simulate policies', async () => {
+    const policy = RetryPolicy.handle(serverErrorErrorFilter)
+      .waitFixed(50)
+      .maxRetries(1);
+    const simulation = await simulatePolicy(policy, [http(502), http(502)]);
+
+    expect(simulation.decisions.map(d => d.decision)).toEqual([
+      'retry',
+      'exhausted',
+    ]);
+  });
+
+  it('should give up without resolvers', async () => {
+    const simulation = await simulatePolicy([], [http(503)]);
+    expect(simulation.decisions[0]).toMatchObject({
+      resolverIndex: undefined,
+      decision: 'exhausted',
+    });
+    expect(explainPolicySimulation(simulation)).toBe(
+      'attempt 1 at 0ms failed with {"status":503,"message":"HTTP 503"}: no resolver, giving up'
+    );
+  });
+});
+
+describe('explainPolicySimulation', () => {
+  it('should describe every decision', async () => {
+    const simulation = await simulatePolicy(
+      [
+        delayErrorResolver({
+          configuration: { maxRetries: 1, initialDelayMs: 100 },
+          canHandleError: statusCodeErrorFilterAny([503]),
+        }),
+        delayErrorResolver({
+          configuration: { maxRetries: 1, initialDelayMs: 10 },
+          canHandleError: statusCodeErrorFilterAny([429]),
+        }),
+        delayErrorResolver({
+          configuration: { maxRetries: 1, initialDelayMs: 1000 },
+        }),
+      ],
+      [http(503), new Error('HTTP 503'), http(429), http(429)]
+    );
+
+    expect(explainPolicySimulation(simulation)).toBe(
+      [
+        'attempt 1 at 0ms failed with {"status":503,"message":"HTTP 503"}: resolver 0 retries after 100ms (1 attempts left)',
+        'attempt 2 at 100ms failed with HTTP 503: resolver 0 cannot handle it, resolver 1 takes over after 0ms',
+        'attempt 3 at 100ms failed with {"status":429,"message":"HTTP 429"}: resolver 1 retries after 10ms (1 attempts left)',
+        'attempt 4 at 110ms failed with {"status":429,"message":"HTTP 429"}: resolver 1 has no attempts left, giving up',
+      ].join('\n')
+    );
+  });
+
+  it('should describe the next resolver taking over', async () => {
+    const simulation = await simulatePolicy(
+      [
+        delayErrorResolver({
+          configuration: { maxRetries: 1, initialDelayMs: 100 },
+        }),
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+        delayErrorResolver({ configuration: { maxRetries: 1 } }),
+      ],
+      ['flaky', 'flaky']
+    );
+
+    expect(explainPolicySimulation(simulation)).toBe(
+      [
+        'attempt 1 at 0ms failed with flaky: resolver 0 retries after 100ms (1 attempts left)',
+        'attempt 2 at 100ms failed with flaky: resolver 0 has no attempts left, resolver 1 takes over after 200ms',
+        'attempt 3 at 300ms succeeded',
+      ].join('\n')
+    );
+  });
+
+  it('should describe success and unrecoverable errors', async () => {
+    const success = await simulatePolicy(
+      [
+        customErrorResolver({
+          configuration: {},
+          callback: () => ({ remainingAttempts: 1, unrecoverable: false }),
+        }),
+      ],
+      ['flaky']
+    );
+    expect(explainPolicySimulation(success)).toBe(
+      [
+        'attempt 1 at 0ms failed with flaky: resolver 0 retries after 0ms (1 attempts left)',
+        'attempt 2 at 0ms succeeded',
+      ].join('\n')
+    );
+
+    const unrecoverable = await simulatePolicy(
+      [
+        customErrorResolver({
+          configuration: {},
+          callback: () => ({ remainingAttempts: 0, unrecoverable: true }),
+        }),
+      ],
+      ['fatal']
+    );
+    expect(explainPolicySimulation(unrecoverable)).toBe(
+      'attempt 1 at 0ms failed with fatal: resolver 0 gives up, unrecoverable'
+    );
+  });
+
+  it('should describe attempts stopped before they were made', async () => {
+    const circuitBreaker = createCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 10000,
+    });
+    const simulation = await simulatePolicy(
+      [
+        circuitBreakerErrorResolver({
+          circuitBreaker,
+          resolver: delayErrorResolver({ configuration: { maxRetries: 3 } }),
+        }),
+      ],
+      [http(503)]
+    );
+
+    expect(explainPolicySimulation(simulation)).toBe(
+      [
+        'attempt 1 at 0ms failed with {"status":503,"message":"HTTP 503"}: resolver 0 gives up, unrecoverable',
+      ].join('\n')
+    );
+
+    const open = await simulatePolicy(
+      [
+        circuitBreakerErrorResolver({
+          circuitBreaker,
+          resolver: delayErrorResolver({ configuration: { maxRetries: 3 } }),
+        }),
+      ],
+      []
+    );
+    expect(explainPolicySimulation(open)).toBe(
+      'attempt 1 at 0ms was not made: Circuit is open'
+    );
+  });
+});
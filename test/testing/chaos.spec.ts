@@ -0,0 +1,200 @@
+import {
+  advancedRetry,
+  AttemptTimeoutError,
+  delayErrorResolver,
+  errorToStatusCode,
+  keywordErrorFilterAny,
+  VirtualClock,
+} from '../../src';
+import { chaos, InjectedFaultError } from '../../src/testing';
+
+const outcomes = async (
+  operation: () => Promise<unknown> | unknown,
+  attempts: number
+) => {
+  const results: unknown[] = [];
+  for (let i = 0; i < attempts; i++) {
+    try {
+      results.push(await operation());
+    } catch (error) {
+      results.push((error as Error).message);
+    }
+  }
+  return results;
+};
+
+describe('chaos', () => {
+  it('should inject the same faults for the same seed', async () => {
+    const options = { errorRate: 0.5, seed: 1 };
+    const first = await outcomes(
+      chaos(() => 'ok', options),
+      20
+    );
+    const second = await outcomes(
+      chaos(() => 'ok', options),
+      20
+    );
+
+    expect(second).toEqual(first);
+    expect(first).toContain('ok');
+    expect(first).toContain('Injected fault: HTTP 503');
+  });
+
+  it('should inject faults at the error rate', async () => {
+    const results = await outcomes(
+      chaos(() => 'ok', { errorRate: 0.2, seed: 3 }),
+      1000
+    );
+    const failures = results.filter(r => r !== 'ok').length;
+    expect(failures).toBeGreaterThan(150);
+    expect(failures).toBeLessThan(250);
+
+    expect(
+      await outcomes(
+        chaos(() => 'ok', { errorRate: 0 }),
+        10
+      )
+    ).not.toContain('Injected fault: HTTP 503');
+    expect(
+      await outcomes(
+        chaos(() => 'ok', { errorRate: 1 }),
+        10
+      )
+    ).not.toContain('ok');
+  });
+
+  it('should inject the configured error shapes by weight', async () => {
+    const operation = chaos(() => 'ok', {
+      errorRate: 1,
+      errors: [
+        { type: 'status', status: 429, headers: { 'Retry-After': '1' } },
+        { type: 'keyword', message: 'read ECONNRESET', weight: 3 },
+        { type: 'status', status: 500, weight: 0 },
+      ],
+      seed: 5,
+    });
+    const errors: InjectedFaultError[] = [];
+    for (let i = 0; i < 400; i++) {
+      await Promise.resolve(operation()).catch(e => errors.push(e));
+    }
+
+    const statusErrors = errors.filter(e => errorToStatusCode(e) === 429);
+    expect(statusErrors.length).toBeGreaterThan(70);
+    expect(statusErrors.length).toBeLessThan(130);
+    expect(statusErrors[0].headers).toEqual({ 'Retry-After': '1' });
+    expect(errors.some(e => errorToStatusCode(e) === 500)).toBe(false);
+    expect(
+      errors.filter(e =>
+        keywordErrorFilterAny(['ECONNRESET']).canHandleError(e, 0, {})
+      )
+    ).toHaveLength(errors.length - statusErrors.length);
+    expect(errors[0]).toBeInstanceOf(InjectedFaultError);
+    expect(errors[0].name).toBe('InjectedFaultError');
+  });
+
+  it('should fall back to the last fault if all weights are 0', async () => {
+    const operation = chaos(() => 'ok', {
+      errorRate: 1,
+      errors: [
+        { type: 'keyword', message: 'first', weight: 0 },
+        { type: 'keyword', message: 'last', weight: 0 },
+      ],
+    });
+    await expect(operation()).rejects.toThrow('last');
+  });
+
+  it('should add latency', async () => {
+    const clock = new VirtualClock();
+    const operation = chaos(
+      () => 'ok',
+      { errorRate: 0, latency: { minMs: 100, maxMs: 200 }, seed: 1 },
+      clock
+    );
+    const settled = jest.fn();
+
+    Promise.resolve(operation()).then(settled);
+    await clock.advance(99);
+    expect(settled).not.toHaveBeenCalled();
+    await clock.advance(101);
+    expect(settled).toHaveBeenCalledWith('ok');
+  });
+
+  it('should only add latency with its probability', async () => {
+    const clock = new VirtualClock();
+    const operation = chaos(
+      () => 'ok',
+      {
+        errorRate: 0,
+        latency: { minMs: 100, maxMs: 100, probability: 0 },
+      },
+      clock
+    );
+    await expect(operation()).resolves.toBe('ok');
+  });
+
+  it('should stop the latency with the abort signal', async () => {
+    const clock = new VirtualClock();
+    const real = jest.fn();
+    const operation = chaos(
+      real,
+      { errorRate: 0, latency: { minMs: 100, maxMs: 100 } },
+      clock
+    );
+    const abortController = new AbortController();
+    const promise = operation(undefined, abortController.signal);
+    abortController.abort('stop');
+
+    await expect(promise).rejects.toBe('stop');
+    expect(real).not.toHaveBeenCalled();
+  });
+
+  it('should hang ignoring the abort signal', async () => {
+    const clock = new VirtualClock();
+    const result = advancedRetry({
+      operation: chaos(() => 'ok', {
+        errorRate: 1,
+        errors: [{ type: 'hang' }],
+      }),
+      attemptTimeout: 1000,
+      clock,
+    });
+
+    await clock.advance(1000);
+    await expect(result).resolves.toMatchObject({
+      success: false,
+      error: expect.any(AttemptTimeoutError),
+    });
+  });
+
+  it('should pass the context and signal to the real operation', async () => {
+    const real = jest.fn(() => 'ok');
+    const abortSignal = new AbortController().signal;
+    await chaos(real, { errorRate: 0 })({ data: 'context' }, abortSignal);
+    expect(real).toHaveBeenCalledWith({ data: 'context' }, abortSignal);
+  });
+
+  it('should let retry policies recover from the faults', async () => {
+    const result = await advancedRetry({
+      operation: chaos(() => 'ok', { errorRate: 0.5, seed: 2 }),
+      errorResolvers: [
+        delayErrorResolver({ configuration: { maxRetries: 10 } }),
+      ],
+    });
+    expect(result.result).toBe('ok');
+  });
+
+  it('should return the operation if disabled', () => {
+    const operation = () => 'ok';
+    expect(chaos(operation, { errorRate: 1, enabled: false })).toBe(operation);
+  });
+
+  it('should validate the options', () => {
+    expect(() => chaos(() => 'ok', { errorRate: 1.5 })).toThrow(
+      'errorRate must be between 0 and 1, got 1.5'
+    );
+    expect(() => chaos(() => 'ok', { errorRate: NaN })).toThrow(RangeError);
+    expect(() => chaos(() => 'ok', { errorRate: 0.5, errors: [] })).toThrow(
+      'errors must contain at least one fault'
+    );
+  });
+});
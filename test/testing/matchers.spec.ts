@@ -0,0 +1,84 @@
+import { advancedRetry, delayErrorResolver } from '../../src';
+import {
+  failWithStatus,
+  RetryMatchers,
+  retryMatchers,
+  scriptedOperation,
+  succeed,
+} from '../../src/testing';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    // eslint-disable-next-line @typescript-eslint/no-empty-object-type
+    interface Matchers<R> extends RetryMatchers<R> {}
+  }
+}
+
+expect.extend(retryMatchers);
+
+describe('retryMatchers', () => {
+  const retried = () =>
+    advancedRetry({
+      operation: scriptedOperation([
+        failWithStatus(503),
+        failWithStatus(503),
+        succeed('ok'),
+      ]),
+      errorResolvers: [
+        delayErrorResolver({
+          configuration: { maxRetries: 3, initialDelayMs: 1 },
+        }),
+      ],
+    });
+
+  describe('toHaveRetried', () => {
+    it('should compare the number of retries', async () => {
+      const result = await retried();
+      expect(result).toHaveRetried(2);
+      expect(result).not.toHaveRetried(3);
+      expect(await advancedRetry({ operation: () => 1 })).toHaveRetried(0);
+    });
+
+    it('should explain the mismatch', async () => {
+      const result = await retried();
+      expect(retryMatchers.toHaveRetried(result, 1).message()).toBe(
+        'expected the operation to be retried 1 times, but it was retried 2 times'
+      );
+      expect(retryMatchers.toHaveRetried(result, 2).message()).toBe(
+        'expected the operation not to be retried 2 times'
+      );
+    });
+  });
+
+  describe('toHaveWaited', () => {
+    it('should compare the delays', async () => {
+      const result = await retried();
+      expect(result).toHaveWaited([1, 2]);
+      expect(result).not.toHaveWaited([1]);
+      expect(result).not.toHaveWaited([1, 3]);
+    });
+
+    it('should explain the mismatch', async () => {
+      const result = await retried();
+      expect(retryMatchers.toHaveWaited(result, [5]).message()).toBe(
+        'expected the operation to wait [5] ms, but it waited [1, 2] ms'
+      );
+      expect(retryMatchers.toHaveWaited(result, [1, 2]).message()).toBe(
+        'expected the operation not to wait [1, 2] ms'
+      );
+    });
+  });
+
+  it('should only match retry results', () => {
+    for (const matcher of [
+      retryMatchers.toHaveRetried(null, 0),
+      retryMatchers.toHaveWaited({ attempts: 'none' }, []),
+    ]) {
+      expect(matcher.pass).toBe(false);
+      expect(matcher.message()).toMatch(
+        /^expected a RetryResult with attempts, received/
+      );
+    }
+  });
+});
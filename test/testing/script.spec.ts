@@ -0,0 +1,102 @@
+import {
+  keywordErrorFilterAny,
+  RetryPolicy,
+  statusCodeErrorFilterAny,
+  VirtualClock,
+} from '../../src';
+import {
+  fail,
+  failWithCode,
+  failWithStatus,
+  scriptedOperation,
+  ScriptedHttpError,
+  ScriptedNetworkError,
+  succeed,
+} from '../../src/testing';
+
+describe('scriptedOperation', () => {
+  it('should play the steps in order', async () => {
+    const operation = scriptedOperation([
+      failWithStatus(503),
+      failWithCode('ECONNRESET'),
+      succeed('ok'),
+    ]);
+
+    await expect(operation()).rejects.toThrow(ScriptedHttpError);
+    await expect(operation()).rejects.toThrow(ScriptedNetworkError);
+    await expect(operation()).resolves.toBe('ok');
+    expect(operation.calls).toHaveLength(3);
+  });
+
+  it('should repeat the last step', async () => {
+    const error = new Error('down');
+    const operation = scriptedOperation([succeed(1), fail(error)]);
+
+    await operation();
+    await expect(operation()).rejects.toBe(error);
+    await expect(operation()).rejects.toBe(error);
+  });
+
+  it('should need at least one step', () => {
+    expect(() => scriptedOperation([])).toThrow(
+      'A scripted operation needs at least one step'
+    );
+  });
+
+  it('should create errors the filters understand', async () => {
+    const result = await RetryPolicy.handle(statusCodeErrorFilterAny([503]))
+      .waitFixed(1)
+      .orElse(keywordErrorFilterAny(['ECONNRESET']))
+      .waitFixed(2)
+      .orElse(statusCodeErrorFilterAny([429]))
+      .waitRetryAfter({ maxDelayMs: 1000 })
+      .execute(
+        scriptedOperation([
+          failWithStatus(503),
+          failWithCode('ECONNRESET'),
+          failWithStatus(429, { 'Retry-After': '0' }),
+          succeed('ok'),
+        ])
+      );
+
+    expect(result.result).toBe('ok');
+    // Every error was retried by the stage for it
+    expect(result.attempts.map(a => a.delayMs)).toEqual([1, 2, 0, undefined]);
+    const [httpError, networkError] = result.attempts.map(a => a.error);
+    expect(httpError).toMatchObject({ name: 'ScriptedHttpError', status: 503 });
+    expect(networkError).toMatchObject({
+      name: 'ScriptedNetworkError',
+      code: 'ECONNRESET',
+    });
+  });
+
+  it('should take the delay of the steps on the clock', async () => {
+    const clock = new VirtualClock();
+    const operation = scriptedOperation(
+      [fail(new Error('slow'), 100), succeed('ok', 50)],
+      clock
+    );
+    const settled = jest.fn();
+
+    const first = operation().catch(settled);
+    await clock.advance(99);
+    expect(settled).not.toHaveBeenCalled();
+    await clock.advance(1);
+    await first;
+    expect(settled).toHaveBeenCalledTimes(1);
+
+    const second = operation();
+    await clock.advance(50);
+    await expect(second).resolves.toBe('ok');
+  });
+
+  it('should stop the delay with the abort signal', async () => {
+    const clock = new VirtualClock();
+    const operation = scriptedOperation([succeed('ok', 100)], clock);
+    const abortController = new AbortController();
+
+    const promise = operation(undefined, abortController.signal);
+    abortController.abort('stop');
+    await expect(promise).rejects.toBe('stop');
+  });
+});
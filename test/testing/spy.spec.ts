@@ -0,0 +1,44 @@
+import { advancedRetry, customErrorResolver } from '../../src';
+import { spyOperation } from '../../src/testing';
+
+describe('spyOperation', () => {
+  it('should record the context and signal of every attempt', async () => {
+    let failures = 0;
+    const operation = spyOperation<string, string>(() => {
+      if (failures++ < 2) {
+        throw new Error('failed');
+      }
+      return 'ok';
+    });
+
+    const result = await advancedRetry({
+      operation,
+      errorResolvers: [
+        customErrorResolver<{ maxRetries: number }, string>({
+          configuration: { maxRetries: 3 },
+          callback: (_, attempt, config) => ({
+            remainingAttempts: config.maxRetries - attempt,
+            unrecoverable: false,
+            context: `retry ${attempt}`,
+          }),
+        }),
+      ],
+    });
+
+    expect(result.result).toBe('ok');
+    expect(operation.calls.map(c => [c.attempt, c.retryContext?.data])).toEqual(
+      [
+        [1, undefined],
+        [2, 'retry 0'],
+        [3, 'retry 1'],
+      ]
+    );
+    expect(operation.calls[0].abortSignal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('should pass on failures of the operation', async () => {
+    const operation = spyOperation(() => Promise.reject(new Error('failed')));
+    await expect(operation()).rejects.toThrow('failed');
+    expect(operation.calls).toHaveLength(1);
+  });
+});
@@ -0,0 +1,20 @@
+import { seededRandom } from '../../src/utils/random';
+
+describe('seededRandom', () => {
+  it('should return the same sequence for the same seed', () => {
+    const first = seededRandom(42);
+    const second = seededRandom(42);
+    const values = Array.from({ length: 5 }, () => first());
+    expect(Array.from({ length: 5 }, () => second())).toEqual(values);
+    expect(seededRandom(43)()).not.toBe(values[0]);
+  });
+
+  it('should return numbers in [0, 1)', () => {
+    const random = seededRandom(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
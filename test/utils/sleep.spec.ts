@@ -0,0 +1,28 @@
+import { sleep } from '../../src/utils/sleep';
+
+describe('sleep', () => {
+  it('should resolve after the delay', async () => {
+    const start = Date.now();
+    await sleep(20);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+
+  it('should treat a negative delay as 0', async () => {
+    await expect(sleep(-100)).resolves.toBeUndefined();
+  });
+
+  it('should resolve immediately if already aborted', async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+    const start = Date.now();
+    await sleep(10000, abortController.signal);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  it('should remove the abort listener once done', async () => {
+    const abortController = new AbortController();
+    const remove = jest.spyOn(abortController.signal, 'removeEventListener');
+    await sleep(1, abortController.signal);
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});